@@ -0,0 +1,3 @@
+-- Split token accounting for messages (tokens_used keeps the total)
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "prompt_tokens" INTEGER;
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "completion_tokens" INTEGER;
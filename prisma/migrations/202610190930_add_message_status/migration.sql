@@ -0,0 +1,2 @@
+-- Mark assistant messages whose generation was cancelled mid-stream
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "status" TEXT NOT NULL DEFAULT 'complete';
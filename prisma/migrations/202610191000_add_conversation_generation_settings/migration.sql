@@ -0,0 +1,2 @@
+-- Per-conversation default generation settings
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "generation_settings" JSONB;
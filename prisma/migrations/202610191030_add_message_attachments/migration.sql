@@ -0,0 +1,2 @@
+-- Image attachment references for multimodal messages
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "attachments" JSONB;
@@ -0,0 +1,3 @@
+-- Rolling summary of turns that no longer fit the model context window
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "summary" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "summary_until" TIMESTAMP(3);
@@ -0,0 +1,16 @@
+-- Conversation branching: parent pointers, branch ids and the active branch per conversation
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "parent_id" TEXT;
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "branch_id" TEXT NOT NULL DEFAULT 'main';
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "active_branch_id" TEXT NOT NULL DEFAULT 'main';
+
+CREATE INDEX IF NOT EXISTS "conversation_messages_conversation_id_branch_id_idx"
+  ON "conversation_messages"("conversation_id", "branch_id");
+
+-- Existing conversations are linear: chain each message to the one before it
+UPDATE "conversation_messages" AS m
+SET "parent_id" = p."prev_id"
+FROM (
+  SELECT "id", LAG("id") OVER (PARTITION BY "conversation_id" ORDER BY "created_at", "id") AS "prev_id"
+  FROM "conversation_messages"
+) AS p
+WHERE m."id" = p."id" AND m."parent_id" IS NULL AND p."prev_id" IS NOT NULL;
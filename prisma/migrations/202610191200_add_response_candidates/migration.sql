@@ -0,0 +1,22 @@
+-- Compare mode: per-model candidate replies for one user message
+CREATE TABLE IF NOT EXISTS "response_candidates" (
+  "id" TEXT NOT NULL,
+  "compare_id" TEXT NOT NULL,
+  "conversation_id" TEXT NOT NULL,
+  "user_message_id" TEXT NOT NULL,
+  "model" TEXT NOT NULL,
+  "content" TEXT NOT NULL DEFAULT '',
+  "status" TEXT NOT NULL DEFAULT 'complete',
+  "error_code" TEXT,
+  "prompt_tokens" INTEGER,
+  "completion_tokens" INTEGER,
+  "latency_ms" INTEGER,
+  "selected" BOOLEAN NOT NULL DEFAULT false,
+  "assistant_message_id" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "response_candidates_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "response_candidates_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "response_candidates_conversation_id_idx" ON "response_candidates"("conversation_id");
+CREATE INDEX IF NOT EXISTS "response_candidates_compare_id_idx" ON "response_candidates"("compare_id");
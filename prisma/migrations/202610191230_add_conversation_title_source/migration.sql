@@ -0,0 +1,3 @@
+-- Automatic titling: where the title came from and when it was last generated
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "title_source" TEXT NOT NULL DEFAULT 'default';
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "title_message_count" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,5 @@
+-- Archive and trash (soft delete) for conversations
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "archived_at" TIMESTAMP(3);
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "deleted_at" TIMESTAMP(3);
+
+CREATE INDEX IF NOT EXISTS "conversations_user_id_deleted_at_idx" ON "conversations"("user_id", "deleted_at");
@@ -0,0 +1,28 @@
+-- Conversation folders (personal or team-shared) and free-form tags
+CREATE TABLE IF NOT EXISTS "conversation_folders" (
+  "id" TEXT NOT NULL,
+  "user_id" TEXT NOT NULL,
+  "team_id" TEXT,
+  "name" TEXT NOT NULL,
+  "color" TEXT,
+  "position" INTEGER NOT NULL DEFAULT 0,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updated_at" TIMESTAMP(3) NOT NULL,
+  CONSTRAINT "conversation_folders_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "conversation_folders_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "conversation_folders_team_id_fkey" FOREIGN KEY ("team_id") REFERENCES "teams"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "conversation_folders_user_id_idx" ON "conversation_folders"("user_id");
+CREATE INDEX IF NOT EXISTS "conversation_folders_team_id_idx" ON "conversation_folders"("team_id");
+
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "folder_id" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "tags" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+
+CREATE INDEX IF NOT EXISTS "conversations_folder_id_idx" ON "conversations"("folder_id");
+
+DO $$ BEGIN
+  ALTER TABLE "conversations" ADD CONSTRAINT "conversations_folder_id_fkey"
+    FOREIGN KEY ("folder_id") REFERENCES "conversation_folders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
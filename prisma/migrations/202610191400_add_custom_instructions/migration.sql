@@ -0,0 +1,20 @@
+-- Custom instructions on conversations and user defaults, with edit history
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "custom_instructions" TEXT;
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "custom_instructions_version" INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "custom_instructions" TEXT;
+ALTER TABLE "user_settings" ADD COLUMN IF NOT EXISTS "custom_instructions_version" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS "custom_instruction_versions" (
+  "id" TEXT NOT NULL,
+  "user_id" TEXT NOT NULL,
+  "conversation_id" TEXT,
+  "version" INTEGER NOT NULL,
+  "content" TEXT,
+  "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "custom_instruction_versions_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "custom_instruction_versions_conversation_id_fkey" FOREIGN KEY ("conversation_id") REFERENCES "conversations"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS "custom_instruction_versions_conversation_id_version_idx" ON "custom_instruction_versions"("conversation_id", "version");
+CREATE INDEX IF NOT EXISTS "custom_instruction_versions_user_id_idx" ON "custom_instruction_versions"("user_id");
@@ -0,0 +1,2 @@
+-- Per-conversation pronoun register (tu / usted / vos / mixed); NULL keeps the persona's default
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "formality" TEXT;
@@ -0,0 +1,4 @@
+-- Reply validation results on assistant messages (score, issues, regenerations used)
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "quality_score" INTEGER;
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "quality_issues" TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[];
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "quality_retries" INTEGER NOT NULL DEFAULT 0;
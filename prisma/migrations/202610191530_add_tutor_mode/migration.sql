@@ -0,0 +1,3 @@
+-- Tutor mode: opt-in per conversation, corrections stored on the user message
+ALTER TABLE "conversations" ADD COLUMN IF NOT EXISTS "tutor_mode" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "conversation_messages" ADD COLUMN IF NOT EXISTS "tutor_feedback" JSONB;
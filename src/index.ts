@@ -24,6 +24,11 @@ import { neonAuthMiddleware, optionalNeonAuthMiddleware } from './middleware/aut
 import { collaborationService } from './services/collaborationService';
 import { initializeWebSocket } from './services/websocket';
 import { translationService } from './services/translationService';
+import { llmProviderRegistry } from './services/llmProviderRegistry';
+import { modelHealthService } from './services/modelHealthService';
+import { llmScheduler } from './services/llmScheduler';
+import { conversationService } from './services/conversationService';
+import { MAX_CHAT_PAYLOAD_BYTES } from './services/attachmentService';
 
 dotenv.config();
 
@@ -41,7 +46,9 @@ console.log('🔍 [STARTUP] Environment Variables:', {
   DATABASE_URL: process.env.DATABASE_URL 
     ? '[SET]' 
     : '[MISSING]',
-  OPENROUTER_BASE_URL: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1'
+  OPENROUTER_BASE_URL: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'auto',
+  LOCAL_LLM_BASE_URL: process.env.LOCAL_LLM_BASE_URL || '[DEFAULT]'
 });
 
 // === VALIDATE OPENROUTER_API_KEY ===
@@ -49,7 +56,9 @@ let STARTUP_ERROR: string | null = null;
 const rawApiKey = process.env.OPENROUTER_API_KEY || '';
 const trimmedApiKey = rawApiKey.trim();
 
-if (!trimmedApiKey || trimmedApiKey.length === 0) {
+if (process.env.LLM_PROVIDER === 'local') {
+  console.log(`✅ LLM_PROVIDER=local - routing LLM calls to ${process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1'}`);
+} else if (!trimmedApiKey || trimmedApiKey.length === 0) {
   STARTUP_ERROR = 'OPENROUTER_API_KEY not configured or empty - server will operate in degraded mode';
   console.error(`❌ ${STARTUP_ERROR}`);
 } else {
@@ -82,7 +91,7 @@ try {
     upgradeTimeout: 20000, // Increased for Railway proxy
     pingTimeout: 120000, // Doubled for intermittent reconnects
     pingInterval: 30000,
-    maxHttpBufferSize: 1e6,
+    maxHttpBufferSize: MAX_CHAT_PAYLOAD_BYTES, // base64 image attachments on user_message
     allowEIO3: true // Fallback for version mismatches
   });
 
@@ -123,6 +132,11 @@ server.options('*', cors({
   allowedHeaders: ['Content-Type', 'Authorization']
 }));
 
+// SSE chat accepts base64 image attachments; parsed first so the default 100kb limit does not apply
+server.use('/api/conversations/:id/messages', express.json({ limit: MAX_CHAT_PAYLOAD_BYTES }));
+// Conversation imports: whole chat exports as JSON, or JSONL as a text body
+server.use('/api/conversations/import', express.json({ limit: process.env.IMPORT_MAX_BODY_SIZE || '25mb' }));
+server.use('/api/conversations/import', express.text({ type: ['text/plain', 'application/x-ndjson', 'application/jsonl'], limit: process.env.IMPORT_MAX_BODY_SIZE || '25mb' }));
 server.use(express.json());
 
 // Public routes (no auth)
@@ -136,6 +150,9 @@ server.get('/api/health', (req, res) => {
     socketIOReady: !!io,
     translationServiceReady: true,
     openRouterConfigured: !!trimmedApiKey,
+    llmProviders: llmProviderRegistry.getStatus(),
+    openModelBreakers: modelHealthService.getAllSnapshots().filter(m => m.state !== 'closed').map(m => m.model),
+    llmScheduler: llmScheduler.getStats(),
     startupError: STARTUP_ERROR || null,
     diagnostics: {
       apiKeyLength: trimmedApiKey.length,
@@ -163,6 +180,15 @@ server.use('/api/models', modelsRouter);
 
 const PORT = process.env.PORT || 3001;
 
+// Purge conversations that have been in the trash longer than TRASH_RETENTION_DAYS
+const TRASH_PURGE_INTERVAL_MS = parseInt(process.env.TRASH_PURGE_INTERVAL_MS || String(6 * 60 * 60 * 1000));
+const trashPurgeTimer = setInterval(() => {
+  conversationService.purgeExpiredTrash().catch((error) => {
+    console.warn('⚠️ [TrashPurge] Purge failed:', error?.message || error);
+  });
+}, TRASH_PURGE_INTERVAL_MS);
+trashPurgeTimer.unref();
+
 // === TRY/CATCH: SERVER STARTUP ===
 try {
   httpServer.listen(PORT, () => {
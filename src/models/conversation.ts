@@ -1,17 +1,64 @@
+import { Formality, GenerationSettings, StoredAttachment, TutorFeedback } from '../types';
+
 export interface Conversation {
   id: string;
   user_id: string;
   title: string;
+  title_source?: 'default' | 'generated' | 'user'; // user-edited titles are never replaced
+  title_message_count?: number; // message_count at the last automatic titling
   model: string; // Current active model
   persona_id?: string;
+  generation_settings?: GenerationSettings | null;
+  summary?: string | null; // rolling summary of older turns (see contextBuilder)
+  summary_until?: Date | null;
+  active_branch_id?: string; // 'main' until a message is edited or regenerated
   created_at: Date;
   updated_at: Date;
   message_count: number;
-  is_active: boolean;
+  is_active: boolean; // false while in the trash
+  archived_at?: Date | null;
+  deleted_at?: Date | null; // trashed; purged after the retention window
+  folder_id?: string | null;
+  tags?: string[]; // lowercase, trimmed
+  custom_instructions?: string | null; // layered on the persona prompt
+  custom_instructions_version?: number; // 0 until first set; bumped on every edit
+  formality?: Formality | null; // null = the persona's default pronoun
+  tutor_mode?: boolean; // check user messages for mistakes (user_message_feedback)
   // Local-first: Store conversation metadata server-side
   // Actual messages stored client-side for privacy
 }
 
+// Which conversations a list shows: the main list excludes archived and trashed ones
+export type ConversationListView = 'active' | 'archived' | 'trash';
+
+// Folder/tag filters for conversation lists and search
+export interface ConversationFilters {
+  folderId?: string | null; // null = conversations in no folder
+  sharedFolder?: boolean;   // team folder: include every conversation filed in it, not just the user's
+  tags?: string[];          // conversations carrying every tag
+}
+
+export interface ConversationFolder {
+  id: string;
+  user_id: string;       // creator
+  team_id?: string | null; // shared with the team's members when set
+  name: string;
+  color?: string | null;
+  position: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// One edit of custom instructions (a conversation's, or the user's defaults when conversation_id is null)
+export interface CustomInstructionVersion {
+  id: string;
+  user_id: string;
+  conversation_id?: string | null;
+  version: number;
+  content: string | null; // null = cleared
+  created_at: Date;
+}
+
 export interface ConversationMessage {
   id: string;
   conversation_id: string;
@@ -20,10 +67,55 @@ export interface ConversationMessage {
   model: string; // Which model generated this response
   persona_id?: string;
   tokens_used?: number;
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  status?: 'complete' | 'partial'; // partial when the generation was cancelled mid-stream
+  attachments?: StoredAttachment[] | null;
+  quality_score?: number | null; // responseValidator score of the kept reply (assistant messages)
+  quality_issues?: string[];
+  quality_retries?: number;      // regenerations triggered by a failed validation
+  tutor_feedback?: TutorFeedback | null; // tutor mode corrections (user messages)
+  parent_id?: string | null; // previous message in the thread (null for the first message)
+  branch_id?: string;        // 'main' or the branch created by an edit/regenerate
   created_at: Date;
   // Store minimal message data server-side for search/analytics
 }
 
+export interface ConversationBranch {
+  branch_id: string;
+  fork_message_id: string | null; // parent of the branch's first message
+  first_message_id: string;
+  leaf_message_id: string;
+  message_count: number; // messages on this branch (excluding shared ancestors)
+  created_at: Date;
+  is_active: boolean;
+}
+
+export interface ConversationTree {
+  conversation_id: string;
+  active_branch_id: string;
+  active_path: string[]; // message ids from the root to the active leaf
+  branches: ConversationBranch[];
+  messages: ConversationMessage[]; // every message, oldest first
+}
+
+export interface ResponseCandidate {
+  id: string;
+  compare_id: string; // client message_id of the compared user turn
+  conversation_id: string;
+  user_message_id: string;
+  model: string;
+  content: string;
+  status: 'complete' | 'partial' | 'failed';
+  error_code?: string | null;
+  prompt_tokens?: number | null;
+  completion_tokens?: number | null;
+  latency_ms?: number | null;
+  selected: boolean;
+  assistant_message_id?: string | null;
+  created_at: Date;
+}
+
 export interface ConversationModel {
   conversation_id: string;
   model_id: string;
@@ -34,7 +126,7 @@ export interface ConversationModel {
 export interface AIModel {
   id: string;
   name: string;
-  provider: 'openrouter' | 'anthropic' | 'openai' | 'google';
+  provider: 'openrouter' | 'anthropic' | 'openai' | 'google' | 'local';
   model_id: string;
   display_name: string;
   description: string;
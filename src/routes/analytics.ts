@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { analyticsService } from '../services/analyticsService';
 import { teamService } from '../services/teamService';
 import { conversationService } from '../services/conversationService';
+import { folderService } from '../services/folderService';
+import { exportService, ConversationExportFormat, CONVERSATION_EXPORT_FORMATS } from '../services/exportService';
 
 const router: Router = Router();
 
@@ -61,7 +63,7 @@ router.get('/conversations/:id', async (req, res) => {
       'read'
     );
     
-    if (conversation.user_id !== userId && !hasAccess) {
+    if (!hasAccess && !(await folderService.canReadConversation(conversation, userId))) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
@@ -187,7 +189,30 @@ router.get('/insights/teams/:id', async (req, res) => {
   }
 });
 
-// Export conversation
+// Export all of the user's conversations (trash excluded) as a zip
+router.get('/export/conversations', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const format = String(req.query.format || 'json') === 'md' ? 'markdown' : String(req.query.format || 'json');
+    if (!CONVERSATION_EXPORT_FORMATS.includes(format as ConversationExportFormat)) {
+      return res.status(400).json({ error: `Invalid format. Supported formats: ${CONVERSATION_EXPORT_FORMATS.join(', ')}` });
+    }
+
+    const file = await exportService.exportAllConversations(userId, format as ConversationExportFormat);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
+  } catch (error) {
+    console.error('Error exporting conversations:', error);
+    res.status(500).json({ error: 'Failed to export conversations' });
+  }
+});
+
+// Export conversation (json, csv, markdown or md, html, pdf, jsonl)
 router.get('/export/conversations/:id/:format', async (req, res) => {
   try {
     const userId = (req as any).user?.id;
@@ -195,10 +220,11 @@ router.get('/export/conversations/:id/:format', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const { id, format } = req.params;
-    
-    if (!['json', 'csv', 'pdf'].includes(format)) {
-      return res.status(400).json({ error: 'Invalid format. Supported formats: json, csv, pdf' });
+    const { id } = req.params;
+    const format = req.params.format === 'md' ? 'markdown' : req.params.format;
+
+    if (!CONVERSATION_EXPORT_FORMATS.includes(format as ConversationExportFormat)) {
+      return res.status(400).json({ error: `Invalid format. Supported formats: ${CONVERSATION_EXPORT_FORMATS.join(', ')}` });
     }
 
     // Check if user has access to conversation
@@ -216,24 +242,14 @@ router.get('/export/conversations/:id/:format', async (req, res) => {
       'read'
     );
     
-    if (conversation.user_id !== userId && !hasAccess) {
+    if (!hasAccess && !(await folderService.canReadConversation(conversation, userId))) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    const exportData = await analyticsService.generateConversationExport(id, format as 'json' | 'csv' | 'pdf');
-
-    if (format === 'json') {
-      res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="conversation-${id}.json"`);
-      res.json(exportData);
-    } else if (format === 'csv') {
-      res.setHeader('Content-Type', 'text/csv');
-      res.setHeader('Content-Disposition', `attachment; filename="conversation-${id}.csv"`);
-      res.send(exportData);
-    } else if (format === 'pdf') {
-      // For PDF, we'll return the structured data and let the frontend handle PDF generation
-      res.json(exportData);
-    }
+    const file = await exportService.exportConversation(id, format as ConversationExportFormat);
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.send(file.body);
   } catch (error) {
     console.error('Error exporting conversation:', error);
     res.status(500).json({ error: 'Failed to export conversation' });
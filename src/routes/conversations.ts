@@ -1,9 +1,147 @@
-import { Router } from 'express';
+import { Router, Request, Response } from 'express';
 import { conversationService } from '../services/conversationService';
 import { searchService } from '../services/searchService';
+import { generationRegistry } from '../services/generationRegistry';
+import { parseGenerationSettings } from '../services/generationSettings';
+import { chatPipeline, ChatPipelineStatus, ChatRequestContext, ChatEventSink } from '../services/chatPipeline';
+import { collaborationService } from '../services/collaborationService';
+import { folderService } from '../services/folderService';
+import { importService, ImportError, ImportFormat, IMPORT_FORMATS } from '../services/importService';
+import { customInstructionsService } from '../services/customInstructionsService';
+import { formalityService } from '../services/formalityService';
+import { GenerationSettings } from '../types';
 
 const router: Router = Router();
 
+/**
+ * Stream a chat pipeline call as Server-Sent Events (same events as the Socket.IO protocol), then `done`
+ */
+async function streamChat(
+  req: Request,
+  res: Response,
+  messageId: string,
+  run: (context: ChatRequestContext, sink: ChatEventSink) => Promise<ChatPipelineStatus>
+): Promise<void> {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no' // disable proxy buffering (nginx)
+  });
+  res.flushHeaders();
+
+  const isOpen = () => !res.writableEnded && !res.destroyed;
+  const send = (event: string, payload: any) => {
+    if (isOpen()) res.write(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+  // Comment pings keep proxies from closing the stream while tools run
+  const keepAlive = setInterval(() => {
+    if (isOpen()) res.write(': ping\n\n');
+  }, 15000);
+  const user = (req as any).user;
+  const sinkId = `sse-${messageId}`;
+  // Client went away mid-reply: stop this stream's generation (partial content is kept)
+  res.on('close', () => {
+    clearInterval(keepAlive);
+    const generation = generationRegistry.get(messageId);
+    if (!res.writableEnded && generation?.socketId === sinkId && generation.userId === user.id) {
+      generationRegistry.cancel(messageId).catch(() => {});
+    }
+  });
+
+  let status: ChatPipelineStatus;
+  try {
+    status = await run(
+      {
+        user: { id: user.id, email: user?.email, name: user?.name },
+        sinkId
+      },
+      { emit: send, isConnected: isOpen }
+    );
+  } catch (error: any) {
+    // Failures before the pipeline's own error handling (e.g. resolving an edit/regenerate target)
+    console.error(`❌ SSE chat ${messageId} failed:`, error);
+    send('error', { message: 'Sorry, I encountered an error processing your message. Please try again.', details: error?.message });
+    status = 'failed';
+  } finally {
+    clearInterval(keepAlive);
+  }
+
+  send('done', { message_id: messageId, status });
+  if (isOpen()) res.end();
+}
+
+function resolveMessageId(body: any): string {
+  return typeof body?.message_id === 'string' && body.message_id
+    ? body.message_id
+    : `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+// Columns clients may set through PUT/PATCH /:id. Folder, tags, archive/trash state, the active
+// branch and title/summary bookkeeping have their own routes or are maintained by the server.
+const EDITABLE_FIELDS = ['title', 'persona_id', 'model'] as const;
+
+/**
+ * Validated, whitelisted conversation update from a PUT/PATCH body; other keys are ignored
+ */
+function pickEditableFields(body: any): { data: Record<string, any>; error?: string } {
+  const data: Record<string, any> = {};
+  for (const field of EDITABLE_FIELDS) {
+    const value = body?.[field];
+    if (value === undefined) continue;
+    if (field === 'persona_id' && value === null) {
+      data.persona_id = null;
+    } else if (typeof value !== 'string' || !value.trim()) {
+      return { data, error: `${field} must be a non-empty string${field === 'persona_id' ? ' or null' : ''}` };
+    } else {
+      data[field] = value;
+    }
+  }
+  if (body?.formality !== undefined) {
+    const normalized = formalityService.normalize(body.formality);
+    if (normalized.error) {
+      return { data, error: normalized.error };
+    }
+    data.formality = normalized.formality;
+  }
+  if (body?.tutor_mode !== undefined) {
+    if (typeof body.tutor_mode !== 'boolean') {
+      return { data, error: 'tutor_mode must be a boolean' };
+    }
+    data.tutor_mode = body.tutor_mode;
+  }
+  return { data };
+}
+
+/**
+ * Validate every field of a PUT/PATCH body before anything is written
+ */
+function parseConversationUpdate(body: any):
+  | { fields: Record<string, any>; generationSettings?: GenerationSettings | null; instructions?: string | null }
+  | { error: { error: string; details?: string[] } } {
+  const { data: fields, error } = pickEditableFields(body);
+  if (error) {
+    return { error: { error } };
+  }
+  let generationSettings: GenerationSettings | null | undefined;
+  if (body?.generation_settings !== undefined) {
+    const parsed = parseGenerationSettings(body.generation_settings);
+    if (!parsed.success) {
+      return { error: { error: 'Invalid generation_settings', details: parsed.errors } };
+    }
+    generationSettings = parsed.settings;
+  }
+  let instructions: string | null | undefined;
+  if (body?.custom_instructions !== undefined) {
+    const normalized = customInstructionsService.normalize(body.custom_instructions);
+    if (normalized.error) {
+      return { error: { error: normalized.error } };
+    }
+    instructions = normalized.content;
+  }
+  return { fields, generationSettings, instructions };
+}
+
 // Get user's conversations
 router.get('/', async (req, res) => {
   try {
@@ -12,7 +150,19 @@ router.get('/', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const conversations = await conversationService.getUserConversations(userId);
+    // ?view=archived or ?view=trash; the default list hides both
+    const view = req.query.view === undefined ? 'active' : String(req.query.view);
+    if (view !== 'active' && view !== 'archived' && view !== 'trash') {
+      return res.status(400).json({ error: 'view must be active, archived or trash' });
+    }
+
+    // ?folder_id=<id>|none and ?tags=a,b narrow the list
+    const { filters, error } = await folderService.resolveFilters(userId, req.query);
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const conversations = await conversationService.getUserConversations(userId, view, filters);
     res.json(conversations);
   } catch (error) {
     console.error('Error fetching conversations:', error);
@@ -36,7 +186,13 @@ router.delete('/', async (req, res) => {
       return res.status(400).json({ error: 'Missing confirmation. Call DELETE /api/conversations?confirm=true to proceed.' });
     }
 
-    await conversationService.deleteAllConversations(userId);
+    // Conversations go to the trash (restorable) unless ?permanent=true
+    if (String(req.query?.permanent ?? '').toLowerCase() === 'true') {
+      await conversationService.deleteAllConversations(userId);
+    } else {
+      const trashed = await conversationService.trashAllConversations(userId);
+      console.log(`🗑️ Moved ${trashed} conversations to the trash for user ${userId}`);
+    }
     return res.status(204).send();
   } catch (error) {
     console.error('Error deleting all conversations:', error);
@@ -44,6 +200,228 @@ router.delete('/', async (req, res) => {
   }
 });
 
+// Restore every conversation in the trash
+router.post('/trash/restore', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const restored = await conversationService.restoreAllConversations(userId);
+    res.json({ restored });
+  } catch (error) {
+    console.error('Error restoring conversations:', error);
+    res.status(500).json({ error: 'Failed to restore conversations' });
+  }
+});
+
+// Permanently delete everything in the trash
+router.delete('/trash', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const purged = await conversationService.emptyTrash(userId);
+    res.json({ purged });
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    res.status(500).json({ error: 'Failed to empty trash' });
+  }
+});
+
+// List folders: personal ones plus those shared with the user's teams
+router.get('/folders', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const folders = await folderService.getFolders(userId);
+    res.json(folders);
+  } catch (error) {
+    console.error('Error fetching folders:', error);
+    res.status(500).json({ error: 'Failed to fetch folders' });
+  }
+});
+
+// Create a folder (team_id shares it with the team)
+router.post('/folders', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { data, errors } = folderService.parseFolderInput(req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid folder', details: errors });
+    }
+    if (data.team_id && !(await folderService.isTeamMember(data.team_id, userId))) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const folder = await folderService.createFolder(userId, data as { name: string });
+    res.status(201).json(folder);
+  } catch (error) {
+    console.error('Error creating folder:', error);
+    res.status(500).json({ error: 'Failed to create folder' });
+  }
+});
+
+// Rename, recolor or reorder a folder
+router.patch('/folders/:folderId', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const folder = await folderService.getFolder(req.params.folderId);
+    if (!folder) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+    if ((await folderService.getAccess(folder, userId)) !== 'manage') {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const { data, errors } = folderService.parseFolderInput(req.body, true);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid folder', details: errors });
+    }
+
+    const updated = await folderService.updateFolder(folder.id, data);
+    res.json(updated);
+  } catch (error) {
+    console.error('Error updating folder:', error);
+    res.status(500).json({ error: 'Failed to update folder' });
+  }
+});
+
+// Delete a folder; its conversations are kept, unfiled
+router.delete('/folders/:folderId', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const folder = await folderService.getFolder(req.params.folderId);
+    if (!folder) {
+      return res.status(404).json({ error: 'Folder not found' });
+    }
+    if ((await folderService.getAccess(folder, userId)) !== 'manage') {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    await folderService.deleteFolder(folder.id);
+    res.status(204).send();
+  } catch (error) {
+    console.error('Error deleting folder:', error);
+    res.status(500).json({ error: 'Failed to delete folder' });
+  }
+});
+
+// Tags in use with their conversation counts
+router.get('/tags', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const tags = await folderService.getUserTags(userId);
+    res.json(tags);
+  } catch (error) {
+    console.error('Error fetching tags:', error);
+    res.status(500).json({ error: 'Failed to fetch tags' });
+  }
+});
+
+// Default custom instructions applied to every conversation
+router.get('/instructions/defaults', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const defaults = await customInstructionsService.getUserDefaults(userId);
+    res.json({ instructions: defaults?.content ?? null, version: defaults?.version ?? 0 });
+  } catch (error) {
+    console.error('Error fetching default instructions:', error);
+    res.status(500).json({ error: 'Failed to fetch default instructions' });
+  }
+});
+
+router.put('/instructions/defaults', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const { content, error } = customInstructionsService.normalize(req.body?.instructions);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const stored = await customInstructionsService.setUserDefaults(userId, content);
+    res.json({ instructions: stored.content, version: stored.version });
+  } catch (error) {
+    console.error('Error updating default instructions:', error);
+    res.status(500).json({ error: 'Failed to update default instructions' });
+  }
+});
+
+router.get('/instructions/defaults/versions', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const versions = await customInstructionsService.getVersions(userId, null);
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching default instruction versions:', error);
+    res.status(500).json({ error: 'Failed to fetch instruction versions' });
+  }
+});
+
+// Import conversations: a LocalStorageManager backup, ChatGPT conversations.json or JSONL (text body)
+router.post('/import', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    // Either the export itself or { format, data }
+    const wrapped = req.body && typeof req.body === 'object' && !Array.isArray(req.body) && 'data' in req.body;
+    const payload = wrapped ? req.body.data : req.body;
+    const format = req.query.format ?? (wrapped ? req.body.format : undefined);
+    if (format !== undefined && !IMPORT_FORMATS.includes(format as ImportFormat)) {
+      return res.status(400).json({ error: `format must be one of ${IMPORT_FORMATS.join(', ')}` });
+    }
+    if (payload === undefined || payload === null || (typeof payload === 'object' && !Array.isArray(payload) && Object.keys(payload).length === 0)) {
+      return res.status(400).json({ error: 'Missing import data' });
+    }
+
+    const report = await importService.importConversations(userId, payload, format as ImportFormat | undefined);
+    res.status(report.conversations.created > 0 ? 201 : 200).json(report);
+  } catch (error) {
+    if (error instanceof ImportError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('Error importing conversations:', error);
+    res.status(500).json({ error: 'Failed to import conversations' });
+  }
+});
+
 // Create new conversation
 router.post('/', async (req, res) => {
   try {
@@ -92,12 +470,15 @@ router.get('/:id', async (req, res) => {
       return res.status(404).json({ error: 'Conversation not found' });
     }
 
-    // Check if user owns this conversation
-    if (conversation.user_id !== userId) {
+    // Owner, or a member of the team folder it is filed in
+    if (!(await folderService.canReadConversation(conversation, userId))) {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    res.json(conversation);
+    // Custom instructions as layered on the persona prompt (the owner's defaults first, then this conversation's)
+    const instructions = await customInstructionsService.getLayers(conversation.user_id, conversation);
+    const effective_formality = formalityService.resolve(conversation.formality, conversation.persona_id);
+    res.json({ ...conversation, instructions, effective_formality });
   } catch (error) {
     console.error('Error fetching conversation:', error);
     res.status(500).json({ error: 'Failed to fetch conversation' });
@@ -123,7 +504,16 @@ router.put('/:id', async (req, res) => {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    const updatedConversation = await conversationService.updateConversation(req.params.id, req.body);
+    const parsed = parseConversationUpdate(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json(parsed.error);
+    }
+    // Renamed by the user: automatic titling must leave it alone
+    if (typeof parsed.fields.title === 'string' && parsed.fields.title !== conversation.title) {
+      parsed.fields.title_source = 'user';
+    }
+
+    const updatedConversation = await conversationService.applyConversationUpdate(req.params.id, userId, parsed);
     res.json(updatedConversation);
   } catch (error) {
     console.error('Error updating conversation:', error);
@@ -150,9 +540,17 @@ router.patch('/:id', async (req, res) => {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    // For partial updates, merge with existing data
-    const updateData = { ...conversation, ...req.body };
-    const updatedConversation = await conversationService.updateConversation(req.params.id, updateData);
+    const parsed = parseConversationUpdate(req.body);
+    if ('error' in parsed) {
+      return res.status(400).json(parsed.error);
+    }
+    // Renamed by the user: automatic titling must leave it alone
+    if (typeof parsed.fields.title === 'string' && parsed.fields.title !== conversation.title) {
+      parsed.fields.title_source = 'user';
+    }
+
+    // Only the patched keys are written
+    const updatedConversation = await conversationService.applyConversationUpdate(req.params.id, userId, parsed);
     res.json(updatedConversation);
   } catch (error) {
     console.error('Error patching conversation:', error);
@@ -160,6 +558,188 @@ router.patch('/:id', async (req, res) => {
   }
 });
 
+// Get conversation generation settings
+router.get('/:id/generation-settings', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    res.json({ generation_settings: conversation.generation_settings ?? null });
+  } catch (error) {
+    console.error('Error fetching generation settings:', error);
+    res.status(500).json({ error: 'Failed to fetch generation settings' });
+  }
+});
+
+// Replace conversation generation settings (send null to clear)
+router.put('/:id/generation-settings', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const parsed = parseGenerationSettings(req.body?.generation_settings ?? null);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid generation_settings', details: parsed.errors });
+    }
+
+    const updated = await conversationService.updateGenerationSettings(req.params.id, parsed.settings);
+    res.json({ generation_settings: updated.generation_settings ?? null });
+  } catch (error) {
+    console.error('Error updating generation settings:', error);
+    res.status(500).json({ error: 'Failed to update generation settings' });
+  }
+});
+
+// Set this conversation's custom instructions (null or blank clears them); each change is a new version
+router.put('/:id/instructions', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const { content, error } = customInstructionsService.normalize(req.body?.instructions);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const stored = await customInstructionsService.setConversationInstructions(req.params.id, userId, content);
+    res.json({ instructions: stored.content, version: stored.version });
+  } catch (error) {
+    console.error('Error updating custom instructions:', error);
+    res.status(500).json({ error: 'Failed to update custom instructions' });
+  }
+});
+
+// Edit history of this conversation's custom instructions, newest first
+router.get('/:id/instructions/versions', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const versions = await customInstructionsService.getVersions(userId, req.params.id);
+    res.json(versions);
+  } catch (error) {
+    console.error('Error fetching custom instruction versions:', error);
+    res.status(500).json({ error: 'Failed to fetch instruction versions' });
+  }
+});
+
+// Set how the persona addresses the user: tu, usted, vos or mixed (null = the persona's default)
+router.put('/:id/formality', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const { formality, error } = formalityService.normalize(req.body?.formality ?? null);
+    if (error) {
+      return res.status(400).json({ error });
+    }
+
+    const updated = await conversationService.updateConversation(req.params.id, { formality });
+    res.json({
+      formality: updated.formality ?? null,
+      effective_formality: formalityService.resolve(updated.formality, updated.persona_id)
+    });
+  } catch (error) {
+    console.error('Error updating formality:', error);
+    res.status(500).json({ error: 'Failed to update formality' });
+  }
+});
+
+// Turn tutor mode on or off: user messages are checked for mistakes (user_message_feedback)
+router.put('/:id/tutor-mode', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const enabled = req.body?.enabled;
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    const updated = await conversationService.updateConversation(req.params.id, { tutor_mode: enabled });
+    res.json({ tutor_mode: !!updated.tutor_mode });
+  } catch (error) {
+    console.error('Error updating tutor mode:', error);
+    res.status(500).json({ error: 'Failed to update tutor mode' });
+  }
+});
+
 // Delete conversation
 router.delete('/:id', async (req, res) => {
   try {
@@ -179,7 +759,12 @@ router.delete('/:id', async (req, res) => {
       return res.status(403).json({ error: 'Forbidden' });
     }
 
-    await conversationService.deleteConversation(req.params.id);
+    // Trash by default; ?permanent=true deletes right away
+    if (String(req.query?.permanent ?? '').toLowerCase() === 'true') {
+      await conversationService.deleteConversation(req.params.id);
+    } else {
+      await conversationService.trashConversation(req.params.id);
+    }
     res.status(204).send();
   } catch (error) {
     console.error('Error deleting conversation:', error);
@@ -187,6 +772,116 @@ router.delete('/:id', async (req, res) => {
   }
 });
 
+// Archive, unarchive or restore from the trash
+router.post('/:id/:action(archive|unarchive|restore)', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const action = req.params.action;
+    if (action === 'restore' && !conversation.deleted_at) {
+      return res.status(409).json({ error: 'Conversation is not in the trash' });
+    }
+    if (action !== 'restore' && conversation.deleted_at) {
+      return res.status(409).json({ error: 'Conversation is in the trash; restore it first' });
+    }
+
+    const updated = action === 'restore'
+      ? await conversationService.restoreConversation(req.params.id)
+      : await conversationService.setArchived(req.params.id, action === 'archive');
+    res.json(updated);
+  } catch (error) {
+    console.error(`Error updating conversation state (${req.params.action}):`, error);
+    res.status(500).json({ error: 'Failed to update conversation' });
+  }
+});
+
+// Replace a conversation's tags
+router.put('/:id/tags', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const { tags, errors } = folderService.normalizeTags(req.body?.tags);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: 'Invalid tags', details: errors });
+    }
+
+    const stored = await folderService.setConversationTags(req.params.id, tags);
+    res.json({ tags: stored });
+  } catch (error) {
+    console.error('Error updating tags:', error);
+    res.status(500).json({ error: 'Failed to update tags' });
+  }
+});
+
+// Move a conversation into a folder (folder_id: null to unfile)
+router.put('/:id/folder', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+
+    // Check if user owns this conversation
+    if (conversation.user_id !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const folderId = req.body?.folder_id ?? null;
+    if (folderId !== null && typeof folderId !== 'string') {
+      return res.status(400).json({ error: 'folder_id must be a string or null' });
+    }
+    if (folderId) {
+      const folder = await folderService.getFolder(folderId);
+      if (!folder) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+      if ((await folderService.getAccess(folder, userId)) === 'none') {
+        return res.status(403).json({ error: 'Forbidden' });
+      }
+    }
+
+    await folderService.setConversationFolder(req.params.id, folderId);
+    res.json({ id: req.params.id, folder_id: folderId });
+  } catch (error) {
+    console.error('Error moving conversation to folder:', error);
+    res.status(500).json({ error: 'Failed to move conversation' });
+  }
+});
+
 // Sync conversation metadata
 router.post('/:id/sync', async (req, res) => {
   try {
@@ -220,6 +915,280 @@ router.post('/:id/sync', async (req, res) => {
   }
 });
 
+// Send a message and stream the reply as Server-Sent Events (same events as the Socket.IO protocol).
+// Use "new" as the id to start a conversation; the first events include conversation_created.
+router.post('/:id/messages', async (req, res) => {
+  const userId = (req as any).user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { message, selected_country_key, model, attachments, compare_models, formality, tutor_mode } = req.body || {};
+  if (typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({ error: 'message is required' });
+  }
+  if (typeof selected_country_key !== 'string' || !selected_country_key) {
+    return res.status(400).json({ error: 'selected_country_key is required' });
+  }
+
+  let conversationId: string | undefined;
+  try {
+    if (req.params.id !== 'new') {
+      const conversation = await conversationService.getConversation(req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      if (conversation.user_id !== userId && !(await collaborationService.hasAccessToConversation(req.params.id, userId))) {
+        return res.status(403).json({ error: 'Forbidden' });
+      }
+      // The pipeline would quietly start a fresh conversation instead of continuing a trashed one
+      if (conversation.deleted_at) {
+        return res.status(409).json({ error: 'Conversation is in the trash; restore it first' });
+      }
+      conversationId = conversation.id;
+    }
+  } catch (error) {
+    console.error('Error resolving conversation for SSE chat:', error);
+    return res.status(500).json({ error: 'Failed to resolve conversation' });
+  }
+
+  const messageId = resolveMessageId(req.body);
+
+  console.log(`📡 SSE chat started for message ${messageId} in conversation ${conversationId || '(new)'}`);
+  await streamChat(req, res, messageId, (context, sink) => chatPipeline.handleUserMessage(
+    {
+      message,
+      selected_country_key,
+      client_ts: Date.now(),
+      message_id: messageId,
+      model,
+      conversationId,
+      attachments,
+      compare_models,
+      formality,
+      tutor_mode
+    },
+    context,
+    sink
+  ));
+});
+
+// Get messages: the active branch's thread (view=path, default) or every branch (view=tree)
+router.get('/:id/messages', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (
+      !(await folderService.canReadConversation(conversation, userId)) &&
+      !(await collaborationService.hasAccessToConversation(req.params.id, userId))
+    ) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    if (req.query.view === 'tree') {
+      const tree = await conversationService.getConversationTree(req.params.id);
+      return res.json(tree);
+    }
+
+    const branchId = typeof req.query.branch_id === 'string' && req.query.branch_id ? req.query.branch_id : undefined;
+    const messages = await conversationService.getConversationMessages(req.params.id, branchId);
+    res.json({
+      conversation_id: req.params.id,
+      branch_id: branchId || conversation.active_branch_id || 'main',
+      messages
+    });
+  } catch (error) {
+    console.error('Error fetching conversation messages:', error);
+    res.status(500).json({ error: 'Failed to fetch messages' });
+  }
+});
+
+// Edit a user message and stream the reply on a new branch (SSE, same events as POST /:id/messages)
+router.post('/:id/messages/:messageId/edit', async (req, res) => {
+  const userId = (req as any).user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const { message, selected_country_key, model, attachments } = req.body || {};
+  if (typeof message !== 'string' || !message.trim()) {
+    return res.status(400).json({ error: 'message is required' });
+  }
+
+  const messageId = resolveMessageId(req.body);
+  console.log(`📡 SSE edit started for message ${req.params.messageId} in conversation ${req.params.id}`);
+  await streamChat(req, res, messageId, (context, sink) => chatPipeline.editMessage(
+    {
+      conversationId: req.params.id,
+      edited_message_id: req.params.messageId,
+      message,
+      message_id: messageId,
+      selected_country_key,
+      model,
+      attachments
+    },
+    context,
+    sink
+  ));
+});
+
+// Regenerate an assistant message on a new branch (SSE)
+router.post('/:id/messages/:messageId/regenerate', async (req, res) => {
+  const userId = (req as any).user?.id;
+  if (!userId) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  const messageId = resolveMessageId(req.body);
+  console.log(`📡 SSE regenerate started for message ${req.params.messageId} in conversation ${req.params.id}`);
+  await streamChat(req, res, messageId, (context, sink) => chatPipeline.regenerateMessage(
+    {
+      conversationId: req.params.id,
+      assistant_message_id: req.params.messageId,
+      message_id: messageId,
+      model: req.body?.model
+    },
+    context,
+    sink
+  ));
+});
+
+// Candidates of a compare-mode message (compareId is the message_id sent with compare_models)
+router.get('/:id/compare/:compareId', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (
+      !(await folderService.canReadConversation(conversation, userId)) &&
+      !(await collaborationService.hasAccessToConversation(req.params.id, userId))
+    ) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const candidates = await conversationService.getResponseCandidates(req.params.id, req.params.compareId);
+    if (candidates.length === 0) {
+      return res.status(404).json({ error: 'Comparison not found' });
+    }
+    res.json({ compare_id: req.params.compareId, candidates });
+  } catch (error) {
+    console.error('Error fetching compare candidates:', error);
+    res.status(500).json({ error: 'Failed to fetch candidates' });
+  }
+});
+
+// Pick the winning candidate; it becomes the assistant message and the conversation model
+router.post('/:id/compare/:compareId/select', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const candidateId = req.body?.candidate_id;
+    if (typeof candidateId !== 'string' || !candidateId) {
+      return res.status(400).json({ error: 'candidate_id is required' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (conversation.user_id !== userId && !(await collaborationService.hasAccessToConversation(req.params.id, userId))) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const candidates = await conversationService.getResponseCandidates(req.params.id, req.params.compareId);
+    if (!candidates.some(candidate => candidate.id === candidateId)) {
+      return res.status(404).json({ error: 'Candidate not found' });
+    }
+
+    const selection = await conversationService.selectResponseCandidate(req.params.id, candidateId);
+    if (!selection) {
+      return res.status(409).json({ error: 'Candidate cannot be selected (still streaming, failed, empty or a winner was already picked)' });
+    }
+    res.json({
+      compare_id: req.params.compareId,
+      candidate: selection.candidate,
+      message: selection.message
+    });
+  } catch (error) {
+    console.error('Error selecting compare candidate:', error);
+    res.status(500).json({ error: 'Failed to select candidate' });
+  }
+});
+
+// Switch the active branch
+router.put('/:id/active-branch', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const branchId = req.body?.branch_id;
+    if (typeof branchId !== 'string' || !branchId) {
+      return res.status(400).json({ error: 'branch_id is required' });
+    }
+
+    const conversation = await conversationService.getConversation(req.params.id);
+    if (!conversation) {
+      return res.status(404).json({ error: 'Conversation not found' });
+    }
+    if (conversation.user_id !== userId && !(await collaborationService.hasAccessToConversation(req.params.id, userId))) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+    if (!(await conversationService.branchExists(req.params.id, branchId))) {
+      return res.status(404).json({ error: 'Branch not found' });
+    }
+
+    await conversationService.setActiveBranch(req.params.id, branchId);
+    const messages = await conversationService.getConversationMessages(req.params.id, branchId);
+    res.json({ conversation_id: req.params.id, branch_id: branchId, messages });
+  } catch (error) {
+    console.error('Error switching branch:', error);
+    res.status(500).json({ error: 'Failed to switch branch' });
+  }
+});
+
+// Cancel an in-flight generation (the streaming socket receives generation_cancelled)
+router.post('/:id/messages/:messageId/cancel', async (req, res) => {
+  try {
+    const userId = (req as any).user?.id;
+    if (!userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const generation = generationRegistry.get(req.params.messageId);
+    if (!generation || generation.conversationId !== req.params.id) {
+      return res.status(404).json({ error: 'No active generation for this message' });
+    }
+
+    if (generation.userId !== userId) {
+      return res.status(403).json({ error: 'Forbidden' });
+    }
+
+    const cancelled = await generationRegistry.cancel(req.params.messageId);
+    res.status(202).json({ cancelled: !!cancelled, message_id: generation.assistantMessageId });
+  } catch (error) {
+    console.error('Error cancelling generation:', error);
+    res.status(500).json({ error: 'Failed to cancel generation' });
+  }
+});
+
 // Search conversations
 router.get('/search/:query', async (req, res) => {
   try {
@@ -228,7 +1197,12 @@ router.get('/search/:query', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const conversations = await searchService.searchConversations(userId, req.params.query);
+    const { filters, error } = await folderService.resolveFilters(userId, req.query);
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const conversations = await searchService.searchConversations(userId, req.params.query, filters);
     res.json(conversations);
   } catch (error) {
     console.error('Error searching conversations:', error);
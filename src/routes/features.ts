@@ -10,10 +10,12 @@ router.get('/', (req, res) => {
         description: "Switch between AI models in real-time without losing context",
         endpoints: [
           "GET /api/models",
-          "POST /api/models/:id/switch"
+          "POST /api/models/:id/switch",
+          "GET /api/conversations/:id/compare/:compareId",
+          "POST /api/conversations/:id/compare/:compareId/select"
         ],
         benefits: [
-          "Compare responses from different models",
+          "Compare responses from different models side by side (send compare_models with a message)",
           "Choose the best model for each conversation",
           "No context loss during switching"
         ]
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { conversationService } from '../services/conversationService';
 import { modelManager } from '../services/modelService';
+import { modelHealthService } from '../services/modelHealthService';
 
 const router: Router = Router();
 
@@ -8,13 +9,23 @@ const router: Router = Router();
 router.get('/', async (req, res) => {
   try {
     const models = await modelManager.getAvailableModels();
-    res.json(models);
+    res.json(models.map(model => ({ ...model, breaker: modelHealthService.getSnapshot(model.id) })));
   } catch (error) {
     console.error('Error fetching models:', error);
     res.status(500).json({ error: 'Failed to fetch models' });
   }
 });
 
+// Circuit breaker state for every model seen by the adapters (including raw provider slugs)
+router.get('/health', async (req, res) => {
+  try {
+    res.json({ models: modelHealthService.getAllSnapshots() });
+  } catch (error) {
+    console.error('Error fetching model health:', error);
+    res.status(500).json({ error: 'Failed to fetch model health' });
+  }
+});
+
 router.post('/:id/switch', async (req, res) => {
   const { id } = req.params;
   const { conversationId } = req.body;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { searchService } from '../services/searchService';
+import { folderService } from '../services/folderService';
 
 const router: Router = Router();
 
@@ -11,7 +12,12 @@ router.get('/:query', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const conversations = await searchService.searchConversations(userId, req.params.query);
+    const { filters, error } = await folderService.resolveFilters(userId, req.query);
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const conversations = await searchService.searchConversations(userId, req.params.query, filters);
     res.json(conversations);
   } catch (error) {
     console.error('Error searching conversations:', error);
@@ -27,7 +33,12 @@ router.get('/messages/:query', async (req, res) => {
       return res.status(401).json({ error: 'Unauthorized' });
     }
 
-    const messages = await searchService.searchConversationMessages(userId, req.params.query);
+    const { filters, error } = await folderService.resolveFilters(userId, req.query);
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const messages = await searchService.searchConversationMessages(userId, req.params.query, filters);
     res.json(messages);
   } catch (error) {
     console.error('Error searching messages:', error);
@@ -60,7 +71,12 @@ router.get('/recent/:limit?', async (req, res) => {
     }
 
     const limit = parseInt(req.params.limit || '10');
-    const conversations = await searchService.getRecentConversations(userId, limit);
+    const { filters, error } = await folderService.resolveFilters(userId, req.query);
+    if (error) {
+      return res.status(error.status).json({ error: error.message });
+    }
+
+    const conversations = await searchService.getRecentConversations(userId, limit, filters);
     res.json(conversations);
   } catch (error) {
     console.error('Error getting recent conversations:', error);
@@ -2,6 +2,7 @@ import express, { Request, Response, NextFunction, Router } from 'express';
 import { randomUUID } from 'crypto';
 import { translationService, TranslationRequest } from '../services/translationService';
 import { personaService } from '../services/personaService';
+import { structuredOutputService } from '../services/structuredOutputService';
 import rateLimit, { RateLimitRequestHandler, ipKeyGenerator } from 'express-rate-limit';
 
 const RATE_LIMIT_WINDOW_MS = 15 * 60 * 1000;
@@ -529,6 +530,7 @@ router.get('/stats', logRequest, (req, res) => {
   res.json({
     timestamp: new Date().toISOString(),
     metrics,
+    structured_output: structuredOutputService.getMetrics(),
     cache: cacheStats,
     rate_limiting: {
       window_minutes: RATE_LIMIT_WINDOW_MS / (60 * 1000),
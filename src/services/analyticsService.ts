@@ -81,6 +81,31 @@ export class AnalyticsService {
     return row as unknown as UserAnalytics;
   }
 
+  /**
+   * Increment user message/token counters (trackUserAnalytics overwrites totals)
+   */
+  async incrementUserUsage(userId: string, delta: { messages?: number; tokens?: number }): Promise<UserAnalytics> {
+    const now = new Date();
+    const row = await this.prisma.userAnalytics.upsert({
+      where: { user_id: userId },
+      update: {
+        total_messages: { increment: delta.messages ?? 0 },
+        total_tokens: { increment: delta.tokens ?? 0 },
+        updated_at: now
+      },
+      create: {
+        user_id: userId,
+        total_conversations: 0,
+        total_messages: delta.messages ?? 0,
+        total_tokens: delta.tokens ?? 0,
+        avg_response_time: 0,
+        created_at: now,
+        updated_at: now
+      }
+    });
+    return row as unknown as UserAnalytics;
+  }
+
   /**
    * Get user analytics
    */
@@ -275,73 +300,6 @@ export class AnalyticsService {
     };
   }
 
-  /**
-   * Generate export data for conversation
-   */
-  async generateConversationExport(conversationId: string, format: 'json' | 'csv' | 'pdf'): Promise<any> {
-    // Get conversation details
-    const conversation = await this.prisma.conversation.findUnique({
-      where: { id: conversationId }
-    });
-    if (!conversation) {
-      throw new Error('Failed to fetch conversation');
-    }
-
-    // Get conversation messages
-    const messages = await this.prisma.conversationMessage.findMany({
-      where: { conversation_id: conversationId },
-      orderBy: { created_at: 'asc' }
-    });
-
-    // Get conversation analytics
-    const analytics = await this.prisma.conversationAnalytics.findUnique({
-      where: { conversation_id: conversationId }
-    });
-
-    const exportData = {
-      conversation: {
-        id: conversation.id,
-        title: (conversation as any).title,
-        model: (conversation as any).model,
-        created_at: (conversation as any).created_at,
-        updated_at: (conversation as any).updated_at,
-        message_count: (conversation as any).message_count
-      },
-      messages: messages.map((msg) => ({
-        id: msg.id,
-        role: (msg as any).role,
-        content: (msg as any).content,
-        model: (msg as any).model,
-        created_at: (msg as any).created_at,
-        tokens_used: (msg as any).tokens_used
-      })),
-      analytics,
-      exported_at: new Date().toISOString()
-    };
-
-    if (format === 'json') {
-      return exportData;
-    } else if (format === 'csv') {
-      // Convert to CSV format
-      const csvHeaders = ['Role', 'Content', 'Model', 'Created At', 'Tokens Used'];
-      const csvRows = messages.map((msg) => [
-        String((msg as any).role),
-        `"${String((msg as any).content).replace(/"/g, '""')}"`,
-        String((msg as any).model ?? ''),
-        String((msg as any).created_at ?? ''),
-        String((msg as any).tokens_used ?? '')
-      ]);
-      
-      const csvContent = [csvHeaders.join(','), ...csvRows.map((row: string[]) => row.join(','))].join('\n');
-      return csvContent;
-    } else if (format === 'pdf') {
-      // Return structured data for PDF generation
-      return exportData;
-    }
-
-    return exportData;
-  }
-
   /**
    * Generate advanced analytics dashboard data
    */
@@ -0,0 +1,119 @@
+import { createHash } from 'crypto';
+import { LLMContentPart, MessageAttachment, StoredAttachment } from '../types';
+import { modelManager } from './modelService';
+
+export interface NormalizedAttachment {
+  url: string; // https URL or data: URL sent upstream
+  stored: StoredAttachment;
+}
+
+const ALLOWED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+const MAX_ATTACHMENTS = parseInt(process.env.MAX_IMAGE_ATTACHMENTS || '4');
+const MAX_IMAGE_BYTES = parseInt(process.env.MAX_IMAGE_BYTES || String(5 * 1024 * 1024));
+
+// Largest chat payload the limits above allow (base64 adds a third, plus room for the message itself);
+// the Socket.IO buffer and the SSE body parser are sized from it
+export const MAX_CHAT_PAYLOAD_BYTES = Math.ceil((MAX_ATTACHMENTS * MAX_IMAGE_BYTES * 4) / 3) + 1024 * 1024;
+
+export class AttachmentService {
+  /**
+   * Validate raw attachments from a chat payload and normalize them for the LLM and storage
+   */
+  normalize(raw: unknown): { attachments: NormalizedAttachment[]; errors: string[] } {
+    const errors: string[] = [];
+    if (raw === undefined || raw === null) return { attachments: [], errors };
+    if (!Array.isArray(raw)) return { attachments: [], errors: ['attachments must be an array'] };
+    if (raw.length > MAX_ATTACHMENTS) {
+      return { attachments: [], errors: [`At most ${MAX_ATTACHMENTS} images per message`] };
+    }
+
+    const attachments: NormalizedAttachment[] = [];
+    raw.forEach((item: MessageAttachment, index) => {
+      const label = `attachments[${index}]`;
+      if (!item || item.type !== 'image') {
+        errors.push(`${label}: only image attachments are supported`);
+        return;
+      }
+
+      if (item.url) {
+        let parsed: URL;
+        try {
+          parsed = new URL(item.url);
+        } catch {
+          errors.push(`${label}: invalid url`);
+          return;
+        }
+        if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+          errors.push(`${label}: url must be http(s); send uploads as base64 data`);
+          return;
+        }
+        attachments.push({
+          url: item.url,
+          stored: { type: 'image', url: item.url, mime_type: item.mime_type, name: item.name }
+        });
+        return;
+      }
+
+      if (item.data) {
+        // Accept "data:image/png;base64,..." or raw base64 + mime_type
+        const dataUrlMatch = /^data:([^;,]+);base64,(.*)$/s.exec(item.data);
+        const mimeType = (dataUrlMatch ? dataUrlMatch[1] : item.mime_type || '').toLowerCase();
+        const base64 = (dataUrlMatch ? dataUrlMatch[2] : item.data).replace(/\s/g, '');
+        if (!ALLOWED_IMAGE_TYPES.includes(mimeType)) {
+          errors.push(`${label}: unsupported image type "${mimeType || 'unknown'}" (allowed: ${ALLOWED_IMAGE_TYPES.join(', ')})`);
+          return;
+        }
+        if (!/^[A-Za-z0-9+/]+={0,2}$/.test(base64)) {
+          errors.push(`${label}: data is not valid base64`);
+          return;
+        }
+        const bytes = Buffer.from(base64, 'base64');
+        if (bytes.length === 0 || bytes.length > MAX_IMAGE_BYTES) {
+          errors.push(`${label}: image must be between 1 byte and ${Math.round(MAX_IMAGE_BYTES / 1024 / 1024)}MB`);
+          return;
+        }
+        attachments.push({
+          url: `data:${mimeType};base64,${base64}`,
+          stored: {
+            type: 'image',
+            mime_type: mimeType,
+            size_bytes: bytes.length,
+            sha256: createHash('sha256').update(bytes).digest('hex'),
+            name: item.name
+          }
+        });
+        return;
+      }
+
+      errors.push(`${label}: provide either url or data`);
+    });
+
+    return { attachments, errors };
+  }
+
+  /**
+   * Check that a model accepts image inputs. Returns the vision-capable alternatives when it does not.
+   */
+  async checkVisionSupport(modelId: string): Promise<{ supported: boolean; visionModels: string[] }> {
+    const visionModels = await modelManager.getModelsByCapability('vision');
+    const supported = visionModels.some(model => model.id === modelId || model.model_id === modelId);
+    return { supported, visionModels: visionModels.map(model => model.id) };
+  }
+
+  /**
+   * Build multimodal content for the user turn (plain string when there are no images)
+   */
+  buildContent(text: string, attachments: NormalizedAttachment[]): string | LLMContentPart[] {
+    if (attachments.length === 0) return text;
+    return [
+      { type: 'text', text },
+      ...attachments.map(attachment => ({
+        type: 'image_url' as const,
+        image_url: { url: attachment.url, detail: 'auto' as const }
+      }))
+    ];
+  }
+}
+
+// Export singleton instance
+export const attachmentService = new AttachmentService();
@@ -0,0 +1,1361 @@
+import { conversationService } from './conversationService';
+import { personaService } from './personaService';
+import { collaborationService } from './collaborationService';
+import { llmProviderRegistry } from './llmProviderRegistry';
+import { modelManager } from './modelService';
+import { usageService } from './usageService';
+import { generationRegistry } from './generationRegistry';
+import { estimateUsage, addUsage } from './tokenEstimator';
+import { toolRegistry } from './toolRegistry';
+import { attachmentService } from './attachmentService';
+import { mergeGenerationSettings, applyGenerationSettings } from './generationSettings';
+import { llmScheduler } from './llmScheduler';
+import { contextBuilder } from './contextBuilder';
+import { titleService } from './titleService';
+import { customInstructionsService } from './customInstructionsService';
+import { promptComposer } from './promptComposer';
+import { formalityService, FORMALITY_MODES } from './formalityService';
+import { responseValidator, ResponseValidation } from './responseValidator';
+import { feedbackService } from './feedbackService';
+import { tutorService } from './tutorService';
+import { ILLMAdapter } from './llmAdapter';
+import { LLMError, LLMOverloadedError } from './llmErrors';
+import { NormalizedAttachment } from './attachmentService';
+import { ActiveGeneration } from './generationRegistry';
+import { Conversation, ConversationMessage } from '../models/conversation';
+import { randomUUID } from 'crypto';
+import { LLMMessage, LLMOptions, UserMessagePayload, EditMessagePayload, RegenerateMessagePayload, MessageAttachment, Persona, GenerationSettings, PlanPriority, TokenUsage, ToolCall, Formality } from '../types';
+
+// Tool-calling rounds per reply; the round after the last one runs without tools so the model must answer
+const MAX_TOOL_ROUNDS = 3;
+// Compare mode fan-out limits
+const MIN_COMPARE_MODELS = 2;
+const MAX_COMPARE_MODELS = 4;
+// Regenerations of a reply that fails validation (0 disables)
+const QUALITY_REGENERATE_ATTEMPTS = parseInt(process.env.QUALITY_REGENERATE_ATTEMPTS || '1');
+
+/**
+ * Transport for chat events. Event names and payloads are the Socket.IO protocol
+ * (assistant_delta, assistant_final, llm_error, ...); SSE writes them as named events.
+ */
+export interface ChatEventSink {
+  emit(event: string, payload: any): void;
+  isConnected(): boolean;
+}
+
+export interface ChatRequestContext {
+  user?: { id: string; email?: string; name?: string };
+  sinkId: string; // socket id or SSE stream id; owns the generation for cancel checks
+}
+
+export type ChatPipelineStatus = 'completed' | 'cancelled' | 'rejected' | 'failed';
+
+/**
+ * Answer on a new branch instead of continuing the active one (edit / regenerate)
+ */
+export interface BranchRequest {
+  kind: 'edit' | 'regenerate';
+  branchId: string;
+  parentId: string | null;  // message the new branch forks from (null = before the first message)
+  userMessageId?: string;   // regenerate: the existing user message being answered again
+}
+
+// What compare mode needs from the shared part of handleUserMessage
+interface ComparisonState {
+  userId: string;
+  conversationId: string;
+  isNewConversation: boolean;
+  persona: Persona;
+  systemPrompt: string; // persona prompt composed with custom instructions
+  formality: Formality;
+  tutorMode: boolean;
+  history: ConversationMessage[];
+  attachments: NormalizedAttachment[];
+  conversationGenerationSettings: unknown;
+  summary?: string | null;
+  summaryUntil?: Date | null;
+}
+
+interface CandidateResult {
+  candidate_id: string;
+  model: string;
+  status: 'complete' | 'partial' | 'failed';
+  error_code?: string;
+}
+
+/**
+ * One user message -> one assistant reply: conversation resolution, persona, model precedence,
+ * tool loop, streaming with non-stream fallback, persistence and usage accounting.
+ * Shared by the Socket.IO `user_message` handler and the SSE chat endpoint.
+ */
+export class ChatPipeline {
+  async handleUserMessage(
+    data: UserMessagePayload,
+    context: ChatRequestContext,
+    sink: ChatEventSink,
+    branch?: BranchRequest
+  ): Promise<ChatPipelineStatus> {
+    const startTime = Date.now();
+    // Tutor mode analysis runs beside the reply; awaited before returning so SSE streams include it
+    let tutorFeedback: Promise<void> = Promise.resolve();
+    let activeGeneration: ActiveGeneration | undefined;
+    try {
+      console.log('[DEBUG] Starting validation checks');
+
+      if (!data.message.trim()) {
+        console.log('[DEBUG] Validation failed: empty message');
+        sink.emit('error', { message: 'Message cannot be empty' });
+        return 'rejected';
+      }
+
+      if (!data.selected_country_key) {
+        console.log('[DEBUG] Validation failed: no country selected');
+        sink.emit('error', { message: 'Please select a country first' });
+        return 'rejected';
+      }
+
+      // Validate connection
+      if (!sink.isConnected()) {
+        console.warn('[DEBUG] Validation failed: socket not connected');
+        sink.emit('error', { message: 'Connection lost; please retry' });
+        return 'rejected';
+      }
+
+      // message_id identifies the generation for cancel; a reused id would hijack the running one
+      if (generationRegistry.get(data.message_id)) {
+        console.warn('[DEBUG] Validation failed: message_id already generating', data.message_id);
+        sink.emit('error', { message: 'A reply for this message_id is already being generated' });
+        return 'rejected';
+      }
+
+      // Validate image attachments up front (model capability is checked once the model is known)
+      const { attachments, errors: attachmentErrors } = attachmentService.normalize(data.attachments);
+      if (attachmentErrors.length > 0) {
+        console.warn('[DEBUG] Validation failed: invalid attachments', attachmentErrors);
+        sink.emit('error', { message: 'Invalid attachments', details: attachmentErrors.join('; ') });
+        return 'rejected';
+      }
+
+      // Compare mode stores candidates, so it needs an account and a sensible number of models
+      if (data.compare_models !== undefined) {
+        const compareError = this.validateCompareModels(data.compare_models, !!context.user?.id, !!branch);
+        if (compareError) {
+          console.warn('[DEBUG] Validation failed: invalid compare request', compareError);
+          sink.emit('error', { message: compareError });
+          return 'rejected';
+        }
+      }
+
+      if (data.formality !== undefined && !formalityService.isFormality(data.formality)) {
+        console.warn('[DEBUG] Validation failed: invalid formality', data.formality);
+        sink.emit('error', { message: `formality must be one of ${FORMALITY_MODES.join(', ')}` });
+        return 'rejected';
+      }
+
+      if (data.tutor_mode !== undefined && typeof data.tutor_mode !== 'boolean') {
+        console.warn('[DEBUG] Validation failed: invalid tutor_mode', data.tutor_mode);
+        sink.emit('error', { message: 'tutor_mode must be a boolean' });
+        return 'rejected';
+      }
+
+      console.log('[DEBUG] Validation checks passed');
+
+      // Extract authenticated user ID from Neon Stack Auth (optional for unauth)
+      const userId = context.user?.id;
+      console.log('[DEBUG] Extracted userId:', userId ? `${userId.slice(0, 8)}...` : 'none (anonymous)');
+      console.log('[DEBUG] Request user:', context.user);
+      const isAuthenticated = !!userId;
+
+      let conversationId = data.conversationId;
+      let isNewConversation = false;
+      let tempConversationId = null;
+      // A handler-scoped resolved ID to use after auth checks/creation
+      let resolvedConversationId: string | undefined;
+      // Conversation-level generation defaults (authenticated conversations only)
+      let conversationGenerationSettings: unknown = null;
+      // Rolling summary of turns that no longer fit the context window
+      let conversationSummary: { summary?: string | null; summary_until?: Date | null } = {};
+      // Custom instructions stored on the conversation (layered on the persona prompt)
+      let conversationInstructions: Pick<Conversation, 'custom_instructions' | 'custom_instructions_version'> | null = null;
+      // Pronoun register stored on the conversation; the payload's only applies when none is stored
+      let conversationFormality: Formality | null = null;
+      // Tutor mode is a conversation setting; the payload's applies to anonymous chats
+      let tutorMode = data.tutor_mode === true;
+
+      if (isAuthenticated) {
+        // For authenticated users, use persistent conversation
+        if (!conversationId) {
+          console.log('[DEBUG] No conversationId, creating new one for authenticated user');
+          const newConv = await conversationService.createConversation({
+            user_id: userId,
+            title: data.message.substring(0, 50) + '...', // Initial title from first message
+            model: data.model || process.env.OPENROUTER_MODEL || 'gpt-4o-mini',
+            persona_id: data.selected_country_key,
+            formality: data.formality,
+            tutor_mode: data.tutor_mode,
+            email: context.user?.email,
+            name: context.user?.name
+          });
+          conversationId = newConv.id;
+          isNewConversation = true;
+          console.log(`🆕 Created new conversation ${conversationId} for user ${userId}`);
+        } else {
+          console.log('[DEBUG] Using existing conversationId:', conversationId);
+        }
+
+        // Verify user access to conversation; create if missing or stale/inaccessible id (stale localStorage)
+        console.log('[DEBUG] Verifying user access to conversation');
+        let conversation = conversationId ? await conversationService.getConversation(conversationId) : null;
+        // A trashed conversation is not continued; the message starts a fresh one
+        if (conversation?.deleted_at) {
+          conversation = null;
+        }
+        let hasAccess = false;
+        if (conversationId && conversation) {
+          hasAccess = await collaborationService.hasAccessToConversation(conversationId, userId);
+        }
+        if (!conversationId || !conversation) {
+          console.log('[DEBUG] Conversation not found; creating new for authenticated user');
+          const newConv = await conversationService.createConversation({
+            user_id: userId,
+            title: data.message.substring(0, 50) + '...',
+            model: data.model || process.env.OPENROUTER_MODEL || 'gpt-4o-mini',
+            persona_id: data.selected_country_key,
+            formality: data.formality,
+            tutor_mode: data.tutor_mode,
+            email: context.user?.email,
+            name: context.user?.name
+          });
+          conversationId = newConv.id;
+          isNewConversation = true;
+          conversation = newConv;
+          console.log(`🆕 Created new conversation ${conversationId} for user ${userId} (replacement for missing/invalid id)`);
+        } else if (!hasAccess && conversation.user_id !== userId) {
+          console.log('[DEBUG] Access denied to existing conversation; creating fresh conversation for user');
+          const newConv = await conversationService.createConversation({
+            user_id: userId,
+            title: data.message.substring(0, 50) + '...',
+            model: data.model || process.env.OPENROUTER_MODEL || 'gpt-4o-mini',
+            persona_id: data.selected_country_key,
+            formality: data.formality,
+            tutor_mode: data.tutor_mode,
+            email: context.user?.email,
+            name: context.user?.name
+          });
+          conversationId = newConv.id;
+          isNewConversation = true;
+          conversation = newConv;
+          console.log(`🆕 Created new conversation ${conversationId} for user ${userId} (no access to provided id)`);
+        }
+        console.log('[DEBUG] User access verified or new conversation established');
+
+        // Resolve a definite conversation id for typed usage
+        if (!conversationId) {
+          console.error('[DEBUG] Conversation ID unresolved after creation/access check');
+          sink.emit('error', { message: 'Failed to resolve conversation' });
+          return 'failed';
+        }
+        resolvedConversationId = conversationId as string;
+        conversationGenerationSettings = conversation?.generation_settings ?? null;
+        conversationSummary = {
+          summary: conversation?.summary ?? null,
+          summary_until: conversation?.summary_until ?? null
+        };
+        conversationInstructions = conversation;
+        conversationFormality = conversation?.formality ?? null;
+        tutorMode = !!conversation?.tutor_mode;
+      } else {
+        // For unauthenticated users, use temporary conversation ID, skip DB
+        console.log('[DEBUG] Unauthenticated user, using temporary conversation');
+        if (!conversationId) {
+          tempConversationId = `temp-conv-${context.sinkId}-${Date.now()}`;
+          conversationId = tempConversationId;
+          isNewConversation = true;
+          console.log(`🆕 Created temporary conversation ${conversationId} for anonymous user`);
+        }
+        // No DB storage for unauth
+      }
+
+      console.log('[DEBUG] Conversation ID resolved:', conversationId);
+
+      // Fetch persona (common for both auth/unauth)
+      console.log('[DEBUG] Fetching persona');
+      const persona = await personaService.getPersona(data.selected_country_key);
+      if (!persona) {
+        console.error('[DEBUG] No persona found');
+        sink.emit('error', { message: 'Invalid country selection' });
+        return 'rejected';
+      }
+      console.log('[DEBUG] Persona fetched successfully');
+
+      // Persona prompt, formality, then the user's custom instructions (account defaults, then this conversation)
+      const formality = formalityService.resolve(conversationFormality ?? data.formality, persona.country_key);
+      const systemPrompt = promptComposer.compose({
+        persona,
+        formality,
+        instructions: await customInstructionsService.getLayers(userId, conversationInstructions)
+      });
+
+      // Conversation history (authenticated only); trimmed to the model's token budget below
+      let history: ConversationMessage[] = [];
+      if (isAuthenticated) {
+        console.log('[DEBUG] Fetching conversation history');
+        // A fork only sees the thread up to its fork point
+        history = branch
+          ? await conversationService.getMessagePath(resolvedConversationId as string, branch.parentId)
+          : await conversationService.getConversationMessages(resolvedConversationId as string);
+        console.log(`[DEBUG] Fetched ${history.length} history messages`);
+      } else {
+        console.log('[DEBUG] Unauthenticated, no history included in LLM request');
+      }
+
+      // Compare mode: several models answer side by side; the user picks the canonical reply later
+      if (data.compare_models && isAuthenticated) {
+        return await this.runComparison(data, context, sink, {
+          userId: userId as string,
+          conversationId: resolvedConversationId as string,
+          isNewConversation,
+          persona,
+          systemPrompt,
+          formality,
+          tutorMode,
+          history,
+          attachments,
+          conversationGenerationSettings,
+          summary: conversationSummary.summary,
+          summaryUntil: conversationSummary.summary_until
+        });
+      }
+
+      // Determine effective model with strict precedence
+      let effectiveModel: string | undefined;
+      if (data.model) {
+        effectiveModel = data.model;
+        console.log(`🧠 Using payload-selected model for request ${data.message_id}: ${effectiveModel}`);
+      } else if (isAuthenticated && conversationId) {
+        try {
+          const dbModel = await conversationService.getCurrentModel(conversationId);
+          if (dbModel) {
+            effectiveModel = dbModel;
+            console.log(`📋 LOADED CONVERSATION MODEL from DB for ${conversationId}: ${effectiveModel}`);
+          }
+        } catch (dbError: any) {
+          console.warn(`⚠️ FAILED TO LOAD CONVERSATION MODEL from DB, will use default: ${dbError?.message || dbError}`);
+        }
+      }
+      if (!effectiveModel) {
+        effectiveModel = process.env.OPENROUTER_MODEL || 'gpt-4o-mini';
+        console.log(`🔁 Fallback to default model for request ${data.message_id}: ${effectiveModel}`);
+      }
+
+      // Route around models whose circuit breaker is open
+      if (!(await modelManager.checkModelAvailability(effectiveModel))) {
+        const fallbackModel = await modelManager.getFallbackModel(effectiveModel);
+        if (fallbackModel && fallbackModel.id !== effectiveModel && fallbackModel.model_id !== effectiveModel) {
+          console.warn(`🔴 Model ${effectiveModel} unavailable (circuit open), falling back to ${fallbackModel.id} for request ${data.message_id}`);
+          if (isAuthenticated) {
+            await conversationService.switchModel(resolvedConversationId as string, fallbackModel.id, 'fallback');
+          }
+          sink.emit('model_fallback', {
+            message_id: data.message_id,
+            from: effectiveModel,
+            to: fallbackModel.id,
+            reason: 'circuit_open',
+            conversationId
+          });
+          effectiveModel = fallbackModel.id;
+        }
+      }
+
+      // Persona defaults first, then conversation overrides
+      const generationSettings = mergeGenerationSettings(persona.generation_settings, conversationGenerationSettings);
+      // Subscription plan decides queue priority when the model is at capacity
+      const priority = await llmScheduler.getPriorityForUser(userId);
+
+      // Fit persona prompt, rolling summary, recent turns and the new message into the model's budget.
+      // The stored summary covers the active branch, so forks are only truncated.
+      const builtContext = await contextBuilder.build({
+        modelId: effectiveModel,
+        systemPrompt,
+        history,
+        userTurn: { role: 'user', content: data.message },
+        maxCompletionTokens: generationSettings.max_tokens,
+        conversationId: isAuthenticated && !branch ? resolvedConversationId : undefined,
+        summary: branch ? null : conversationSummary.summary,
+        summaryUntil: branch ? null : conversationSummary.summary_until,
+        userId,
+        priority,
+        requestId: data.message_id
+      });
+      const messages: LLMMessage[] = builtContext.messages;
+      console.log(`[DEBUG] LLM messages prepared, length: ${messages.length} (~${builtContext.promptTokens}/${builtContext.budget} prompt tokens, ${builtContext.droppedTurns} older turns ${builtContext.summarized ? 'summarized' : 'dropped'})`);
+
+      // Images need a vision-capable model
+      if (attachments.length > 0) {
+        const { supported, visionModels } = await attachmentService.checkVisionSupport(effectiveModel);
+        if (!supported) {
+          console.warn(`[DEBUG] Model ${effectiveModel} does not support image inputs`);
+          if (isAuthenticated && isNewConversation) {
+            await conversationService.deleteConversation(resolvedConversationId as string);
+          }
+          sink.emit('error', {
+            message: `Model ${effectiveModel} does not accept images. Choose a vision model: ${visionModels.join(', ')}`,
+            vision_models: visionModels
+          });
+          return 'rejected';
+        }
+        messages[messages.length - 1] = { role: 'user', content: attachmentService.buildContent(data.message, attachments) };
+        console.log(`[DEBUG] Attached ${attachments.length} image(s) to the user turn`);
+      }
+
+      // A fork becomes the active branch once its first message is stored
+      let branchActivated = false;
+      const activateBranch = async (firstMessageId: string) => {
+        if (!branch || branchActivated) return;
+        branchActivated = true;
+        await conversationService.setActiveBranch(resolvedConversationId as string, branch.branchId);
+        console.log(`🌿 Activated ${branch.kind} branch ${branch.branchId} in conversation ${resolvedConversationId}`);
+        sink.emit('branch_created', {
+          conversationId: resolvedConversationId,
+          branch_id: branch.branchId,
+          kind: branch.kind,
+          fork_message_id: branch.parentId,
+          first_message_id: firstMessageId
+        });
+      };
+
+      // Stored ids the assistant reply hangs off
+      let storedUserMessageId: string | undefined = branch?.userMessageId;
+      let replyBranchId: string | undefined = branch?.branchId;
+
+      // Store user message once it has passed validation (a regenerate answers the existing one)
+      if (isAuthenticated && branch?.kind !== 'regenerate') {
+        console.log('[DEBUG] Storing user message');
+        const userMessageId = data.message_id || this.generateMessageId();
+        const storedUserMessage = await conversationService.addMessage({
+          conversation_id: resolvedConversationId as string,
+          role: 'user',
+          content: data.message,
+          model: data.model || '',
+          persona_id: data.selected_country_key,
+          tokens_used: undefined,
+          attachments: attachments.map(attachment => attachment.stored),
+          // Continue from the last turn the model saw
+          parent_id: branch ? branch.parentId : history[history.length - 1]?.id,
+          branch_id: branch?.branchId
+        });
+        storedUserMessageId = storedUserMessage.id;
+        replyBranchId = storedUserMessage.branch_id;
+        console.log(`💾 Stored user message ${userMessageId} in conversation ${resolvedConversationId}`);
+        await activateBranch(storedUserMessage.id);
+
+        // Emit user message confirmation to client
+        sink.emit('user_message_stored', {
+          message_id: userMessageId,
+          conversationId: resolvedConversationId,
+          stored_message_id: storedUserMessage.id,
+          parent_id: storedUserMessage.parent_id ?? null,
+          branch_id: storedUserMessage.branch_id
+        });
+      }
+
+      // Tutor mode: check the learner's message while the persona answers in character
+      if (tutorMode && branch?.kind !== 'regenerate') {
+        tutorFeedback = this.runTutor(sink, {
+          message: data.message,
+          messageId: data.message_id,
+          storedMessageId: storedUserMessageId,
+          conversationId,
+          formality,
+          userId,
+          priority
+        });
+      }
+
+      // Resolve the provider adapter for the selected model (OpenRouter, local server, ...)
+      const { adapter: llmAdapter, model: upstreamModel, provider } = await llmProviderRegistry.resolve(effectiveModel);
+      console.log(`[LLM] Provider: ${provider}, Model: ${upstreamModel}, Messages length: ${messages.length}`);
+
+      // Check provider configuration before proceeding
+      if (!llmAdapter.isReady()) {
+        const errorMsg = `LLM provider "${provider}" not configured`;
+        console.error(`[LLM] ${errorMsg}`);
+        sink.emit('llm_error', { message: errorMsg });
+        return 'failed';
+      }
+
+      // Provider-reported usage (final stream chunk or fetchCompletion callback)
+      let usage: TokenUsage | undefined;
+      const options: LLMOptions = applyGenerationSettings({
+        model: upstreamModel,
+        timeout: 30000,
+        requestId: data.message_id,
+        onUsage: (reported) => { usage = reported; },
+        priority,
+        onQueuePosition: (position, queueLength) => {
+          sink.emit('queue_position', {
+            message_id: data.message_id,
+            model: effectiveModel,
+            position, // 0 = dispatched to the model
+            queue_length: queueLength,
+            priority
+          });
+        }
+      }, generationSettings);
+      if (Object.keys(generationSettings).length > 0) {
+        console.log(`[LLM] Generation settings for ${data.message_id}:`, generationSettings);
+      }
+
+      // Tools this persona may call mid-reply (e.g. lookup_word for dictionary citations)
+      const toolDefinitions = toolRegistry.getDefinitions(persona.tools);
+      if (toolDefinitions.length > 0) {
+        options.tools = toolDefinitions;
+        console.log(`[LLM] Tools enabled for ${data.message_id}: ${toolDefinitions.map(t => t.function.name).join(', ')}`);
+      }
+      // The non-stream fallback does not run the tool loop
+      const fallbackOptions: LLMOptions = { ...options, tools: undefined };
+
+      // Register the generation so cancel_generation / REST cancel can reach it
+      const generation = generationRegistry.start({
+        requestId: data.message_id,
+        assistantMessageId: this.generateMessageId(),
+        conversationId: isAuthenticated ? resolvedConversationId : conversationId,
+        userId,
+        socketId: context.sinkId,
+        adapter: llmAdapter
+      });
+      activeGeneration = generation;
+
+      // Persist whatever was streamed before a cancel and tell the client
+      const finishCancelledGeneration = async () => {
+        const partialContent = generation.content;
+        console.log(`🛑 [LLM] Generation ${data.message_id} cancelled with ${partialContent.length} chars streamed`);
+        if (isAuthenticated && partialContent.length > 0) {
+          const partialUsage: TokenUsage = usage || estimateUsage(messages, partialContent);
+          const storedPartial = await conversationService.addMessage({
+            conversation_id: resolvedConversationId as string,
+            role: 'assistant',
+            content: partialContent,
+            model: effectiveModel as string,
+            persona_id: data.selected_country_key,
+            tokens_used: partialUsage.total_tokens,
+            prompt_tokens: partialUsage.prompt_tokens,
+            completion_tokens: partialUsage.completion_tokens,
+            status: 'partial',
+            parent_id: storedUserMessageId,
+            branch_id: replyBranchId
+          });
+          console.log(`💾 Stored partial assistant message ${generation.assistantMessageId} in conversation ${resolvedConversationId}`);
+          await activateBranch(storedPartial.id);
+          await usageService.recordUsage(userId, effectiveModel as string, partialUsage);
+        }
+        sink.emit('generation_cancelled', {
+          message_id: generation.assistantMessageId,
+          request_message_id: data.message_id,
+          partial_content: partialContent,
+          timestamp: new Date().toISOString(),
+          conversationId
+        });
+      };
+
+      // Stream response with timeout wrapper
+      const streamPromise = (async () => {
+        let fullContent = '';
+        const assistantMessageId = generation.assistantMessageId;
+        // Working copy for the tool loop; tool turns are sent upstream but never persisted
+        const turnMessages: LLMMessage[] = [...messages];
+
+        try {
+          for (let round = 0; ; round++) {
+            const roundOptions: LLMOptions = round < MAX_TOOL_ROUNDS ? options : { ...options, tools: undefined };
+            let roundContent = '';
+            let roundUsage: TokenUsage | undefined;
+            let toolCalls: ToolCall[] | undefined;
+
+            for await (const chunk of llmAdapter.streamCompletion(turnMessages, roundOptions)) {
+              if (generation.cancelled) {
+                break;
+              }
+              // Providers may repeat (or accumulate) usage; the latest report covers the whole round
+              if (chunk.meta?.usage) {
+                roundUsage = chunk.meta.usage;
+              }
+              if (chunk.toolCalls) {
+                toolCalls = chunk.toolCalls;
+              }
+              if (chunk.deltaText) {
+                roundContent += chunk.deltaText;
+                fullContent += chunk.deltaText;
+                generation.content = fullContent;
+                sink.emit('assistant_delta', {
+                  message_id: assistantMessageId,
+                  chunk: chunk.deltaText,
+                  index: fullContent.length,
+                  total: null // Unknown total for streaming
+                });
+              }
+            }
+
+            if (roundUsage) {
+              usage = addUsage(usage, roundUsage);
+            }
+
+            if (generation.cancelled || !roundOptions.tools || !toolCalls || toolCalls.length === 0) {
+              break;
+            }
+
+            // Run the requested tools and feed the results back for the next round
+            turnMessages.push({ role: 'assistant', content: roundContent, tool_calls: toolCalls });
+            for (const call of toolCalls) {
+              console.log(`🔧 [LLM] Tool call ${call.function.name} for ${data.message_id} (round ${round + 1})`);
+              sink.emit('tool_call', {
+                message_id: assistantMessageId,
+                tool_call_id: call.id,
+                name: call.function.name,
+                arguments: call.function.arguments
+              });
+              const result = await toolRegistry.execute(call, {
+                userId,
+                conversationId: resolvedConversationId,
+                personaId: data.selected_country_key
+              });
+              sink.emit('tool_result', {
+                message_id: assistantMessageId,
+                tool_call_id: call.id,
+                name: call.function.name,
+                success: result.success
+              });
+              turnMessages.push({ role: 'tool', tool_call_id: call.id, name: call.function.name, content: result.content });
+            }
+          }
+          return { fullContent, assistantMessageId };
+        } catch (streamError) {
+          console.error('[LLM] Stream error:', streamError);
+          if (!generation.cancelled && !(streamError instanceof LLMError)) {
+            sink.emit('llm_error', { message: 'LLM stream failed: ' + (streamError as Error).message });
+          }
+          throw streamError;
+        }
+      })();
+
+      let finalContent = '';
+      let finalAssistantMessageId = '';
+
+      try {
+        const { fullContent, assistantMessageId } = await Promise.race([
+          streamPromise,
+          // Overall timeout: 60s (longer when the request timeout was raised), plus time for tool rounds
+          new Promise<never>((_, reject) => setTimeout(
+            () => reject(new Error('Stream timeout')),
+            Math.max(60000, (options.timeout ?? 30000) + 30000) + (options.tools ? MAX_TOOL_ROUNDS * 30000 : 0)
+          ))
+        ]);
+
+        console.log('[DEBUG] LLM call completed');
+        console.log('[LLM] streamCompletion completed, full content length:', fullContent.length);
+
+        if (generation.cancelled) {
+          await finishCancelledGeneration();
+          return 'cancelled';
+        }
+
+        if (fullContent.length === 0) {
+          console.log('[LLM] No streamed chunks; invoking non-stream fallback');
+          let fallbackContent: string;
+          try {
+            fallbackContent = await llmAdapter.fetchCompletion(messages, fallbackOptions);
+          } catch (fallbackError) {
+            if (generation.cancelled) {
+              await finishCancelledGeneration();
+              return 'cancelled';
+            }
+            this.emitLLMError(sink, data.message_id, 'LLM fallback failed', fallbackError);
+            return 'failed';
+          }
+          if (generation.cancelled) {
+            await finishCancelledGeneration();
+            return 'cancelled';
+          }
+          if (fallbackContent.trim().length > 0) {
+            finalContent = fallbackContent;
+            finalAssistantMessageId = assistantMessageId;
+          } else {
+            sink.emit('llm_error', { message: 'No response generated from LLM' });
+            return 'failed';
+          }
+        } else {
+          finalContent = fullContent;
+          finalAssistantMessageId = assistantMessageId;
+        }
+      } catch (streamError) {
+        const streamErrorMessage =
+          streamError instanceof Error ? streamError.message : String(streamError);
+        if (generation.cancelled) {
+          await finishCancelledGeneration();
+          return 'cancelled';
+        }
+        // The adapter already retried; only transient provider failures are worth a non-stream attempt
+        if (streamError instanceof LLMError && !['upstream', 'network', 'timeout'].includes(streamError.kind)) {
+          this.emitLLMError(sink, data.message_id, 'LLM stream failed', streamError);
+          return 'failed';
+        }
+        console.error('[LLM] Stream failed, attempting non-stream fallback:', streamErrorMessage);
+        try {
+          const fallbackContent = await llmAdapter.fetchCompletion(messages, fallbackOptions);
+          if (generation.cancelled) {
+            await finishCancelledGeneration();
+            return 'cancelled';
+          }
+          if (fallbackContent.trim().length > 0) {
+            finalContent = fallbackContent;
+            finalAssistantMessageId = this.generateMessageId();
+          } else {
+            sink.emit('llm_error', { message: 'No response generated from LLM after fallback' });
+            return 'failed';
+          }
+        } catch (fallbackError) {
+          if (generation.cancelled) {
+            await finishCancelledGeneration();
+            return 'cancelled';
+          }
+          const fallbackErrorMessage =
+            fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+          console.error('[LLM] Fallback also failed:', fallbackErrorMessage);
+          this.emitLLMError(sink, data.message_id, 'LLM completely failed', fallbackError);
+          return 'failed';
+        }
+      }
+
+      // Score the reply; one that fails validation is regenerated (not streamed) and the better one kept
+      const streamedUsage: TokenUsage = usage || estimateUsage(messages, finalContent);
+      const quality = await this.improveReply({
+        content: finalContent,
+        messages,
+        adapter: llmAdapter,
+        options: fallbackOptions,
+        countryKey: persona.country_key,
+        formality,
+        requestId: data.message_id,
+        isCancelled: () => generation.cancelled
+      });
+      if (generation.cancelled) {
+        await finishCancelledGeneration();
+        return 'cancelled';
+      }
+      const regenerated = quality.content !== finalContent;
+      finalContent = quality.content;
+
+      const finalUsage: TokenUsage = quality.usage ? addUsage(streamedUsage, quality.usage) : streamedUsage;
+      console.log(`[LLM] Token usage for ${data.message_id}: ${finalUsage.prompt_tokens} prompt + ${finalUsage.completion_tokens} completion${finalUsage.estimated ? ' (estimated)' : ''}`);
+
+      // Store assistant message if authenticated
+      let storedAssistantMessage: ConversationMessage | undefined;
+      if (isAuthenticated) {
+        storedAssistantMessage = await conversationService.addMessage({
+          conversation_id: resolvedConversationId as string,
+          role: 'assistant',
+          content: finalContent,
+          model: effectiveModel,
+          persona_id: data.selected_country_key,
+          tokens_used: finalUsage.total_tokens,
+          prompt_tokens: finalUsage.prompt_tokens,
+          completion_tokens: finalUsage.completion_tokens,
+          quality_score: quality.validation.score,
+          quality_issues: quality.validation.issues,
+          quality_retries: quality.retries,
+          parent_id: storedUserMessageId,
+          branch_id: replyBranchId
+        });
+        console.log(`💾 Stored assistant message ${finalAssistantMessageId} in conversation ${resolvedConversationId}`);
+        await activateBranch(storedAssistantMessage.id);
+        await usageService.recordUsage(userId, effectiveModel, finalUsage);
+      } else {
+        console.log('[DEBUG] Unauthenticated, skipping assistant message storage');
+      }
+
+      // Quality metrics for the feedback dashboard (/api/personas/feedback/stats)
+      feedbackService.storeDebugData({
+        messageId: finalAssistantMessageId,
+        userMessage: data.message,
+        assistantResponse: finalContent,
+        persona: data.selected_country_key,
+        qualityScore: quality.validation.score,
+        validationIssues: quality.validation.issues,
+        retriesUsed: quality.retries,
+        processingTime: Date.now() - startTime,
+        timestamp: Date.now()
+      });
+
+      // Emit final message (a regenerated reply replaces the streamed text)
+      sink.emit('assistant_final', {
+        message_id: finalAssistantMessageId,
+        final_content: finalContent,
+        regenerated,
+        timestamp: new Date().toISOString(),
+        conversationId,
+        stored_message_id: storedAssistantMessage?.id,
+        parent_id: storedAssistantMessage?.parent_id ?? undefined,
+        branch_id: storedAssistantMessage?.branch_id
+      });
+
+      // If new conversation, emit the created conversation ID back to client (only for auth, temp for unauth)
+      if (isNewConversation) {
+        sink.emit('conversation_created', { conversationId, userId: isAuthenticated ? userId : 'anonymous' });
+      }
+
+      // Name the conversation after the first exchange and re-title it when the topic drifts
+      if (isAuthenticated) {
+        await this.updateTitle(sink, resolvedConversationId as string, { userId, priority, requestId: data.message_id });
+      }
+
+      console.log(`[DEBUG] Handler completed at ${new Date().toISOString()}, total time: ${Date.now() - startTime}ms`);
+
+      console.log('✅ User message processed for:', data.message_id, 'content length:', finalContent.length);
+      return 'completed';
+    } catch (error: any) {
+      const endTime = Date.now();
+      console.error(`[DEBUG] Handler error at ${new Date(endTime).toISOString()}, total time: ${endTime - startTime}ms`);
+      console.error('❌ User message processing error:', error);
+      sink.emit('error', {
+        message: 'Sorry, I encountered an error processing your message. Please try again.',
+        details: error.message
+      });
+      return 'failed';
+    } finally {
+      if (activeGeneration) generationRegistry.finish(activeGeneration);
+      await tutorFeedback;
+    }
+  }
+
+  /**
+   * Fan one user message out to 2-4 models concurrently. Each candidate streams on its own
+   * message_id (assistant_delta with compare_id), is stored as a ResponseCandidate and
+   * finishes with candidate_final; no assistant message is stored until one is selected.
+   */
+  private async runComparison(
+    data: UserMessagePayload,
+    context: ChatRequestContext,
+    sink: ChatEventSink,
+    state: ComparisonState
+  ): Promise<ChatPipelineStatus> {
+    const models = Array.from(new Set(data.compare_models));
+    const generationSettings = mergeGenerationSettings(state.persona.generation_settings, state.conversationGenerationSettings);
+    const priority = await llmScheduler.getPriorityForUser(state.userId);
+
+    // Every compared model must accept the images
+    if (state.attachments.length > 0) {
+      const unsupported: string[] = [];
+      let visionModels: string[] = [];
+      for (const model of models) {
+        const check = await attachmentService.checkVisionSupport(model);
+        visionModels = check.visionModels;
+        if (!check.supported) unsupported.push(model);
+      }
+      if (unsupported.length > 0) {
+        if (state.isNewConversation) {
+          await conversationService.deleteConversation(state.conversationId);
+        }
+        sink.emit('error', {
+          message: `Models ${unsupported.join(', ')} do not accept images. Choose vision models: ${visionModels.join(', ')}`,
+          vision_models: visionModels
+        });
+        return 'rejected';
+      }
+    }
+
+    const storedUserMessage = await conversationService.addMessage({
+      conversation_id: state.conversationId,
+      role: 'user',
+      content: data.message,
+      model: '',
+      persona_id: data.selected_country_key,
+      tokens_used: undefined,
+      attachments: state.attachments.map(attachment => attachment.stored),
+      parent_id: state.history[state.history.length - 1]?.id
+    });
+    console.log(`💾 Stored user message ${data.message_id} in conversation ${state.conversationId} (compare: ${models.join(', ')})`);
+    sink.emit('user_message_stored', {
+      message_id: data.message_id,
+      conversationId: state.conversationId,
+      stored_message_id: storedUserMessage.id,
+      parent_id: storedUserMessage.parent_id ?? null,
+      branch_id: storedUserMessage.branch_id
+    });
+
+    const tutorFeedback = state.tutorMode
+      ? this.runTutor(sink, {
+        message: data.message,
+        messageId: data.message_id,
+        storedMessageId: storedUserMessage.id,
+        conversationId: state.conversationId,
+        formality: state.formality,
+        userId: state.userId,
+        priority
+      })
+      : Promise.resolve();
+
+    const candidates = models.map(model => ({ id: randomUUID(), model }));
+    sink.emit('compare_started', {
+      compare_id: data.message_id,
+      conversationId: state.conversationId,
+      user_message_id: storedUserMessage.id,
+      candidates: candidates.map(candidate => ({ candidate_id: candidate.id, model: candidate.model }))
+    });
+
+    const results = await Promise.all(candidates.map((candidate, index) =>
+      this.runCandidate(data, context, sink, state, {
+        ...candidate,
+        requestId: `${data.message_id}_c${index + 1}`,
+        userMessageId: storedUserMessage.id,
+        generationSettings,
+        priority
+      })
+    ));
+
+    sink.emit('compare_final', {
+      compare_id: data.message_id,
+      conversationId: state.conversationId,
+      user_message_id: storedUserMessage.id,
+      candidates: results
+    });
+    if (state.isNewConversation) {
+      sink.emit('conversation_created', { conversationId: state.conversationId, userId: state.userId });
+    }
+    await this.updateTitle(sink, state.conversationId, { userId: state.userId, priority, requestId: data.message_id });
+    await tutorFeedback;
+
+    const answered = results.filter(result => result.status !== 'failed').length;
+    console.log(`⚖️ Compare ${data.message_id} finished: ${answered}/${results.length} candidates answered`);
+    if (results.every(result => result.error_code === 'cancelled' || result.status === 'partial')) return 'cancelled';
+    return answered > 0 ? 'completed' : 'failed';
+  }
+
+  /**
+   * Stream one compare candidate and store it (failures are stored too, with their error code)
+   */
+  private async runCandidate(
+    data: UserMessagePayload,
+    context: ChatRequestContext,
+    sink: ChatEventSink,
+    state: ComparisonState,
+    candidate: {
+      id: string;
+      model: string;
+      requestId: string;
+      userMessageId: string;
+      generationSettings: GenerationSettings;
+      priority: PlanPriority;
+    }
+  ): Promise<CandidateResult> {
+    const startTime = Date.now();
+    let content = '';
+    let usage: TokenUsage | undefined;
+    let messages: LLMMessage[] = [];
+    let status: CandidateResult['status'] = 'complete';
+    let errorCode: string | undefined;
+    let errorMessage: string | undefined;
+    let generation: ActiveGeneration | undefined;
+
+    try {
+      if (!(await modelManager.checkModelAvailability(candidate.model))) {
+        errorCode = 'circuit_open';
+        throw new Error(`Model ${candidate.model} is temporarily unavailable`);
+      }
+
+      // Candidates share the stored summary but never rewrite it
+      const builtContext = await contextBuilder.build({
+        modelId: candidate.model,
+        systemPrompt: state.systemPrompt,
+        history: state.history,
+        userTurn: { role: 'user', content: data.message },
+        maxCompletionTokens: candidate.generationSettings.max_tokens,
+        summary: state.summary,
+        summaryUntil: state.summaryUntil,
+        userId: state.userId,
+        priority: candidate.priority,
+        requestId: candidate.requestId
+      });
+      messages = builtContext.messages;
+      if (state.attachments.length > 0) {
+        messages[messages.length - 1] = { role: 'user', content: attachmentService.buildContent(data.message, state.attachments) };
+      }
+
+      const { adapter, model: upstreamModel, provider } = await llmProviderRegistry.resolve(candidate.model);
+      if (!adapter.isReady()) {
+        throw new Error(`LLM provider "${provider}" not configured`);
+      }
+
+      const options: LLMOptions = applyGenerationSettings({
+        model: upstreamModel,
+        timeout: 30000,
+        requestId: candidate.requestId,
+        onUsage: (reported) => { usage = reported; },
+        priority: candidate.priority,
+        onQueuePosition: (position, queueLength) => {
+          sink.emit('queue_position', {
+            message_id: candidate.id,
+            compare_id: data.message_id,
+            model: candidate.model,
+            position,
+            queue_length: queueLength,
+            priority: candidate.priority
+          });
+        }
+      }, candidate.generationSettings);
+
+      generation = generationRegistry.start({
+        requestId: candidate.requestId,
+        assistantMessageId: candidate.id,
+        groupId: data.message_id,
+        conversationId: state.conversationId,
+        userId: state.userId,
+        socketId: context.sinkId,
+        adapter
+      });
+
+      for await (const chunk of adapter.streamCompletion(messages, options)) {
+        if (generation.cancelled) break;
+        // One upstream request: the latest usage report covers it
+        if (chunk.meta?.usage) {
+          usage = chunk.meta.usage;
+        }
+        if (chunk.deltaText) {
+          content += chunk.deltaText;
+          generation.content = content;
+          sink.emit('assistant_delta', {
+            message_id: candidate.id,
+            compare_id: data.message_id,
+            model: candidate.model,
+            chunk: chunk.deltaText,
+            index: content.length,
+            total: null
+          });
+        }
+      }
+
+      if (!generation.cancelled && content.length === 0) {
+        console.log(`[LLM] No streamed chunks for candidate ${candidate.model}; invoking non-stream fallback`);
+        content = await adapter.fetchCompletion(messages, options);
+        if (!content.trim()) {
+          throw new Error('No response generated from LLM');
+        }
+      }
+    } catch (error) {
+      if (!generation?.cancelled) {
+        status = 'failed';
+        errorCode = errorCode || (error instanceof LLMError ? error.kind : 'error');
+        errorMessage = error instanceof Error ? error.message : String(error);
+        console.warn(`⚠️ [LLM] Compare candidate ${candidate.model} for ${data.message_id} failed (${errorCode}): ${errorMessage}`);
+      }
+    } finally {
+      if (generation) generationRegistry.finish(generation);
+    }
+
+    if (generation?.cancelled) {
+      status = content.length > 0 ? 'partial' : 'failed';
+      errorCode = content.length > 0 ? undefined : 'cancelled';
+    }
+
+    const finalUsage: TokenUsage | undefined = content.length > 0 ? usage || estimateUsage(messages, content) : usage;
+    const latencyMs = Date.now() - startTime;
+    try {
+      await conversationService.addResponseCandidate({
+        id: candidate.id,
+        compare_id: data.message_id,
+        conversation_id: state.conversationId,
+        user_message_id: candidate.userMessageId,
+        model: candidate.model,
+        content,
+        status,
+        error_code: errorCode,
+        prompt_tokens: finalUsage?.prompt_tokens,
+        completion_tokens: finalUsage?.completion_tokens,
+        latency_ms: latencyMs
+      });
+      if (finalUsage) {
+        await usageService.recordUsage(state.userId, candidate.model, finalUsage);
+      }
+    } catch (storeError) {
+      console.error(`❌ Failed to store compare candidate ${candidate.id}:`, storeError);
+    }
+
+    sink.emit('candidate_final', {
+      compare_id: data.message_id,
+      candidate_id: candidate.id,
+      model: candidate.model,
+      status,
+      final_content: content,
+      error_code: errorCode,
+      error: errorMessage,
+      latency_ms: latencyMs,
+      timestamp: new Date().toISOString(),
+      conversationId: state.conversationId
+    });
+
+    return { candidate_id: candidate.id, model: candidate.model, status, error_code: errorCode };
+  }
+
+  /**
+   * Generate or refresh the conversation title and tell the client (conversation_updated)
+   */
+  private async updateTitle(
+    sink: ChatEventSink,
+    conversationId: string,
+    options: { userId?: string; priority?: PlanPriority; requestId?: string }
+  ): Promise<void> {
+    const update = await titleService.maybeUpdateTitle(conversationId, options);
+    if (!update || !sink.isConnected()) return;
+    sink.emit('conversation_updated', {
+      conversationId,
+      title: update.title,
+      title_source: update.title_source,
+      reason: update.reason,
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  /**
+   * Returns an error message when a compare_models list cannot be run
+   */
+  private validateCompareModels(models: unknown, isAuthenticated: boolean, isBranch: boolean): string | null {
+    if (!isAuthenticated) return 'Sign in to compare models';
+    if (isBranch) return 'Compare mode is not available when editing or regenerating';
+    if (!Array.isArray(models) || models.some(model => typeof model !== 'string' || !model)) {
+      return 'compare_models must be a list of model ids';
+    }
+    const unique = new Set(models);
+    if (unique.size < MIN_COMPARE_MODELS || unique.size > MAX_COMPARE_MODELS) {
+      return `Compare between ${MIN_COMPARE_MODELS} and ${MAX_COMPARE_MODELS} different models`;
+    }
+    return null;
+  }
+
+  /**
+   * Edit an earlier user message: the new text is stored and answered on a fresh branch
+   * forked from the edited message's parent. The original thread stays intact.
+   */
+  async editMessage(
+    data: EditMessagePayload,
+    context: ChatRequestContext,
+    sink: ChatEventSink
+  ): Promise<ChatPipelineStatus> {
+    const target = await this.resolveBranchTarget(data.conversationId, data.edited_message_id, 'user', context, sink);
+    if (!target) return 'rejected';
+
+    const branchId = conversationService.createBranchId();
+    console.log(`✏️ Editing message ${target.message.id} in conversation ${data.conversationId} as branch ${branchId}`);
+    return this.handleUserMessage(
+      {
+        message: data.message,
+        selected_country_key: data.selected_country_key || target.message.persona_id || target.personaId || '',
+        client_ts: Date.now(),
+        message_id: data.message_id,
+        model: data.model,
+        conversationId: data.conversationId,
+        attachments: data.attachments
+      },
+      context,
+      sink,
+      { kind: 'edit', branchId, parentId: target.message.parent_id ?? null }
+    );
+  }
+
+  /**
+   * Regenerate an assistant reply: the same user message is answered again on a fresh branch
+   */
+  async regenerateMessage(
+    data: RegenerateMessagePayload,
+    context: ChatRequestContext,
+    sink: ChatEventSink
+  ): Promise<ChatPipelineStatus> {
+    const target = await this.resolveBranchTarget(data.conversationId, data.assistant_message_id, 'assistant', context, sink);
+    if (!target) return 'rejected';
+
+    const userMessage = target.message.parent_id ? await conversationService.getMessage(target.message.parent_id) : null;
+    if (!userMessage || userMessage.role !== 'user') {
+      sink.emit('error', { message: 'The message this reply answers was not found' });
+      return 'rejected';
+    }
+
+    // Uploaded images are stored by hash only, so only URL images can be sent again
+    const attachments: MessageAttachment[] = (userMessage.attachments || [])
+      .filter(attachment => !!attachment.url)
+      .map(attachment => ({ type: 'image', url: attachment.url, mime_type: attachment.mime_type, name: attachment.name }));
+
+    const branchId = conversationService.createBranchId();
+    console.log(`🔁 Regenerating reply ${target.message.id} in conversation ${data.conversationId} as branch ${branchId}`);
+    return this.handleUserMessage(
+      {
+        message: userMessage.content,
+        selected_country_key: target.message.persona_id || userMessage.persona_id || target.personaId || '',
+        client_ts: Date.now(),
+        message_id: data.message_id,
+        model: data.model,
+        conversationId: data.conversationId,
+        attachments
+      },
+      context,
+      sink,
+      { kind: 'regenerate', branchId, parentId: userMessage.parent_id ?? null, userMessageId: userMessage.id }
+    );
+  }
+
+  /**
+   * Load a message to fork from, checking auth, conversation access and the message role
+   */
+  private async resolveBranchTarget(
+    conversationId: string,
+    messageId: string,
+    role: 'user' | 'assistant',
+    context: ChatRequestContext,
+    sink: ChatEventSink
+  ): Promise<{ message: ConversationMessage; personaId?: string } | null> {
+    const userId = context.user?.id;
+    if (!userId) {
+      sink.emit('error', { message: 'Authentication required to edit or regenerate messages' });
+      return null;
+    }
+    if (!conversationId || !messageId) {
+      sink.emit('error', { message: 'conversationId and message id are required' });
+      return null;
+    }
+
+    const conversation = await conversationService.getConversation(conversationId);
+    if (!conversation || conversation.deleted_at) {
+      sink.emit('error', { message: 'Conversation not found' });
+      return null;
+    }
+    if (conversation.user_id !== userId && !(await collaborationService.hasAccessToConversation(conversationId, userId))) {
+      sink.emit('error', { message: 'Access denied to this conversation' });
+      return null;
+    }
+
+    const message = await conversationService.getMessage(messageId);
+    if (!message || message.conversation_id !== conversationId) {
+      sink.emit('error', { message: 'Message not found in this conversation' });
+      return null;
+    }
+    if (message.role !== role) {
+      sink.emit('error', { message: role === 'user' ? 'Only user messages can be edited' : 'Only assistant messages can be regenerated' });
+      return null;
+    }
+
+    return { message, personaId: conversation.persona_id || undefined };
+  }
+
+  /**
+   * Tutor mode: analyse the user's message, store the corrections on it and emit user_message_feedback.
+   * The persona's reply is not affected; a failed analysis sends nothing.
+   */
+  private async runTutor(
+    sink: ChatEventSink,
+    input: {
+      message: string;
+      messageId: string;
+      storedMessageId?: string;
+      conversationId?: string;
+      formality: Formality;
+      userId?: string;
+      priority?: PlanPriority;
+    }
+  ): Promise<void> {
+    const feedback = await tutorService.analyze(input.message, {
+      formality: input.formality,
+      userId: input.userId,
+      priority: input.priority,
+      requestId: input.messageId
+    });
+    if (!feedback) return;
+
+    if (input.storedMessageId) {
+      try {
+        await conversationService.setTutorFeedback(input.storedMessageId, feedback);
+      } catch (error: any) {
+        console.warn(`⚠️ [Tutor] Could not store feedback on message ${input.storedMessageId}:`, error?.message || error);
+      }
+    }
+    sink.emit('user_message_feedback', {
+      message_id: input.messageId,
+      stored_message_id: input.storedMessageId,
+      conversationId: input.conversationId,
+      ...feedback
+    });
+  }
+
+  /**
+   * Validate a finished reply. A failing one is regenerated up to QUALITY_REGENERATE_ATTEMPTS times with a
+   * corrective instruction, and the best-scoring candidate is kept; usage covers the regenerations only.
+   */
+  private async improveReply(input: {
+    content: string;
+    messages: LLMMessage[];
+    adapter: ILLMAdapter;
+    options: LLMOptions;
+    countryKey: string;
+    formality: Formality;
+    requestId: string;
+    isCancelled: () => boolean;
+  }): Promise<{ content: string; validation: ResponseValidation; retries: number; usage?: TokenUsage }> {
+    const context = { countryKey: input.countryKey, formality: input.formality };
+    let best = { content: input.content, validation: responseValidator.validate(input.content, context) };
+    let retries = 0;
+    let usage: TokenUsage | undefined;
+
+    while (!best.validation.isValid && retries < QUALITY_REGENERATE_ATTEMPTS && !input.isCancelled()) {
+      retries++;
+      console.warn(`⚠️ [Quality] Reply ${input.requestId} failed validation (score ${best.validation.score}: ${best.validation.issues.join(', ')}); regenerating ${retries}/${QUALITY_REGENERATE_ATTEMPTS}`);
+      const retryMessages: LLMMessage[] = [
+        ...input.messages,
+        { role: 'assistant', content: best.content },
+        { role: 'user', content: responseValidator.buildCorrection(best.validation.issues) }
+      ];
+
+      let retryUsage: TokenUsage | undefined;
+      let retryContent: string;
+      try {
+        retryContent = (await input.adapter.fetchCompletion(retryMessages, {
+          ...input.options,
+          onUsage: (reported) => { retryUsage = reported; }
+        })).trim();
+      } catch (error) {
+        console.warn(`⚠️ [Quality] Regenerate failed for ${input.requestId}, keeping the current reply:`, error instanceof Error ? error.message : error);
+        break;
+      }
+      usage = addUsage(usage, retryUsage || estimateUsage(retryMessages, retryContent));
+      if (!retryContent) continue;
+
+      const validation = responseValidator.validate(retryContent, context);
+      console.log(`🔁 [Quality] Regenerated ${input.requestId}: score ${best.validation.score} -> ${validation.score}`);
+      if (validation.score > best.validation.score) {
+        best = { content: retryContent, validation };
+      }
+    }
+    return { ...best, retries, usage };
+  }
+
+  /**
+   * Emit llm_error; typed failures carry `code` (LLMError kind) and `retry_after_ms` when known
+   */
+  private emitLLMError(sink: ChatEventSink, messageId: string, prefix: string, error: unknown): void {
+    const message = error instanceof Error ? error.message : String(error);
+    if (!(error instanceof LLMError)) {
+      sink.emit('llm_error', { message: `${prefix}: ${message}`, message_id: messageId });
+      return;
+    }
+    console.warn(`⚠️ [LLM] Request ${messageId} failed with ${error.kind}${error.model ? ` on ${error.model}` : ''}`);
+    sink.emit('llm_error', {
+      message: `${prefix}: ${message}`,
+      code: error.kind,
+      reason: error instanceof LLMOverloadedError ? error.reason : undefined,
+      retry_after_ms: error.retryAfterMs,
+      message_id: messageId
+    });
+  }
+
+  private generateMessageId(): string {
+    return `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// Export singleton instance
+export const chatPipeline = new ChatPipeline();
@@ -8,10 +8,14 @@ import {
   UserMessagePayload,
   AssistantDeltaPayload,
   AssistantFinalPayload,
-  TypingPayload
+  TypingPayload,
+  Formality
 } from '../types';
 import { Server, Socket } from 'socket.io';
 import { conversationService } from './conversationService';
+import { formalityService } from './formalityService';
+import { responseValidator } from './responseValidator';
+import { promptComposer } from './promptComposer';
 
 const getErrorMessage = (error: unknown): string => {
   if (error instanceof Error) return error.message;
@@ -26,76 +30,15 @@ export class ChatService {
     this.llmAdapter = llmAdapter;
   }
 
-  // Response validation and quality scoring
-  private validateResponse(response: string): { isValid: boolean; score: number; issues: string[] } {
-    const issues: string[] = [];
-    let score = 0;
-
-    // Minimum length check (15+ characters)
-    if (response.trim().length < 15) {
-      issues.push('Response too short');
-      score -= 2;
-    } else {
-      score += 1;
-    }
-
-    // Checks for meaningful content (not just punctuation or single words)
-    const meaningfulWords = response.trim().split(/\s+/).filter(word => word.length > 2);
-    if (meaningfulWords.length < 2) {
-      issues.push('Insufficient meaningful content');
-      score -= 1;
-    } else {
-      score += 1;
-    }
-
-    // Check for engagement indicators (questions, conversation starters)
-    const hasQuestion = /[¿?]\s*[A-Za-zÀ-ÿ]/.test(response);
-    const hasEngagement = /\b(qué|como|cuándo|dónde|por qué|cuál|quién)\b/i.test(response);
-    const hasSlang = /\b(güey|chido|órale|qué onda|no manches|chamba|qué padre|manito|guey|papá|bebe|chulo|qué lo qué|tremendo|vaina|chévere|guagua)\b/i.test(response);
-
-    if (hasQuestion || hasEngagement) {
-      score += 2;
-    }
-
-    if (hasSlang) {
-      score += 1;
-    } else {
-      issues.push('Missing regional slang');
-      score -= 1;
-    }
-
-    // Check for repetitive patterns
-    const words = response.toLowerCase().split(/\s+/);
-    const uniqueWords = new Set(words);
-    const repetitionRatio = uniqueWords.size / words.length;
-    if (repetitionRatio < 0.6) {
-      issues.push('High repetition detected');
-      score -= 1;
-    }
-
-    return {
-      isValid: score >= 0 && issues.length === 0,
-      score,
-      issues
-    };
-  }
-
   // Conversation context awareness
-  private enhanceWithContextAwareness(response: string, userMessage: string, selected_country_key: string): string {
+  private enhanceWithContextAwareness(response: string, userMessage: string, selected_country_key: string, formality: Formality): string {
     // Add follow-up engagement if response lacks questions
     const hasQuestion = /[¿?]\s*[A-Za-zÀ-ÿ]/.test(response);
     const hasEngagement = /\b(qué|como|cuándo|dónde|por qué|cuál|quién)\b/i.test(response);
 
     if (!hasQuestion && !hasEngagement && response.length > 20) {
-      // Add contextual follow-up based on user message and country
-      const followUps = {
-        mex: [" ¿Qué más quieres saber?", " ¿Te cuento más al respecto?", " ¿Qué opinas tú?", " ¿Quieres que te explique mejor?", " ¿Hay algo más que te interese?"],
-        arg: [" ¿Qué más querés saber?", " ¿Te cuento más al respecto?", " ¿Qué opinás vos?", " ¿Querés que te explique mejor?", " ¿Hay algo más que te interese?"],
-        esp: [" ¿Qué más quieres saber?", " ¿Te cuento más al respecto?", " ¿Qué opinas tú?", " ¿Quieres que te explique mejor?", " ¿Hay algo más que te interese?"],
-        dom: [" ¿Qué lo qué quieres saber?", " ¿Te cuento más al respecto?", " ¿Qué opinas tú?", " ¿Quieres que te explique mejor?", " ¿Hay algo más que te interese?"]
-      };
-
-      const countryFollowUps = followUps[selected_country_key as keyof typeof followUps] || followUps.mex;
+      // Add contextual follow-up in the conversation's register (the persona's lexicon phrases when it has them)
+      const countryFollowUps = formalityService.getFollowUps(formality, selected_country_key);
       const randomFollowUp = countryFollowUps[Math.floor(Math.random() * countryFollowUps.length)];
       return response.trim() + randomFollowUp;
     }
@@ -114,6 +57,7 @@ export class ChatService {
     payload: UserMessagePayload
   ): Promise<void> {
     const { message, selected_country_key, client_ts, message_id, model, conversationId } = payload;
+    let storedFormality: Formality | null = null;
 
     console.log(`🤖 PROCESSING MESSAGE: ${message_id} - "${message}" for country: ${selected_country_key}`);
     this.logResponseProcess(message_id, 'start', { userMessage: message, country: selected_country_key });
@@ -151,6 +95,7 @@ export class ChatService {
         try {
           effectiveModel = await conversationService.getCurrentModel(conversationId);
           console.log(`📋 LOADED CONVERSATION MODEL from DB: ${effectiveModel} for conversation: ${conversationId}`);
+          storedFormality = (await conversationService.getConversation(conversationId))?.formality ?? null;
         } catch (dbError) {
           const errorMessage = getErrorMessage(dbError);
           console.warn(`⚠️ FAILED TO LOAD CONVERSATION MODEL from DB, using payload/default: ${errorMessage}`);
@@ -165,10 +110,13 @@ export class ChatService {
       };
       socket.emit('typing_start', typingPayload);
 
+      // Conversation's formality, else the payload's, else the persona's default pronoun
+      const formality = formalityService.resolve(storedFormality ?? payload.formality, selected_country_key);
+
       // Prepare LLM messages
       const systemMessage: LLMMessage = {
         role: 'system',
-        content: persona.prompt_text // Remove restrictive safety constraints
+        content: promptComposer.compose({ persona, formality }) // Remove restrictive safety constraints
       };
 
       const userMessage: LLMMessage = {
@@ -207,7 +155,7 @@ export class ChatService {
             let finalResponse = fullResponse;
 
             // Validate response quality
-            const validation = this.validateResponse(finalResponse);
+            const validation = responseValidator.validate(finalResponse, { countryKey: selected_country_key, formality });
             this.logResponseProcess(message_id, 'validation', validation);
 
             // If response is poor quality and we haven't exceeded retries, try again
@@ -249,7 +197,7 @@ export class ChatService {
             }
 
             // Final validation and enhancement
-            const finalValidation = this.validateResponse(finalResponse);
+            const finalValidation = responseValidator.validate(finalResponse, { countryKey: selected_country_key, formality });
             
             // If still poor quality after retries, use fallback
             if (!finalValidation.isValid || finalResponse.trim().length === 0) {
@@ -273,7 +221,7 @@ export class ChatService {
             }
 
             // Add conversation context awareness
-            finalResponse = this.enhanceWithContextAwareness(finalResponse, message, selected_country_key);
+            finalResponse = this.enhanceWithContextAwareness(finalResponse, message, selected_country_key, formality);
             
             // Send final message
             const finalPayload: AssistantFinalPayload = {
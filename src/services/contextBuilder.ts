@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { conversationService } from './conversationService';
+import { modelManager } from './modelService';
+import { structuredOutputService } from './structuredOutputService';
+import { usageService } from './usageService';
+import { estimateMessageTokens } from './tokenEstimator';
+import { ConversationMessage } from '../models/conversation';
+import { LLMMessage, PlanPriority } from '../types';
+
+export interface ContextBuildInput {
+  modelId: string;               // effective model; its context_window sets the budget
+  systemPrompt: string;          // persona prompt, always kept
+  history: ConversationMessage[]; // stored turns, oldest first
+  userTurn: LLMMessage;          // the new user message, always kept
+  maxCompletionTokens?: number;  // reserved for the reply
+  // Rolling summary (persistent conversations only)
+  conversationId?: string;
+  summary?: string | null;
+  summaryUntil?: Date | null;
+  userId?: string;               // billed for summary calls
+  priority?: PlanPriority;
+  requestId?: string;
+}
+
+export interface BuiltContext {
+  messages: LLMMessage[];
+  promptTokens: number;  // estimated
+  budget: number;
+  includedTurns: number; // history turns sent verbatim
+  droppedTurns: number;  // history turns only covered by the summary (or lost)
+  summarized: boolean;   // summary message included
+}
+
+const DEFAULT_CONTEXT_WINDOW = parseInt(process.env.CONTEXT_DEFAULT_WINDOW || '8192');
+// Cost cap regardless of how large the model window is
+const MAX_PROMPT_TOKENS = parseInt(process.env.CONTEXT_MAX_PROMPT_TOKENS || '16000');
+const SUMMARY_MAX_TOKENS = parseInt(process.env.CONTEXT_SUMMARY_MAX_TOKENS || '400');
+const DEFAULT_COMPLETION_TOKENS = 1000;
+// Keep a margin for estimation error and tool-calling turns
+const SAFETY_RATIO = 0.9;
+// When turns must be folded, fold enough that the rest fits this share of the budget,
+// so summaries are refreshed every few turns rather than on every message
+const TRIM_TARGET_RATIO = 0.6;
+
+const SummarySchema = z.object({
+  summary: z.string().min(1)
+});
+
+/**
+ * Builds the LLM prompt for a chat turn within the model's token budget:
+ * persona system prompt + rolling summary of older turns + as many recent turns as fit + the new user turn.
+ * Turns that no longer fit are folded into Conversation.summary (covering messages up to summary_until).
+ */
+export class ContextBuilder {
+  async build(input: ContextBuildInput): Promise<BuiltContext> {
+    const contextWindow = await this.getContextWindow(input.modelId);
+    const budget = this.getPromptBudget(contextWindow, input.maxCompletionTokens);
+    const systemMessage: LLMMessage = { role: 'system', content: input.systemPrompt };
+    const fixedTokens = estimateMessageTokens(systemMessage) + estimateMessageTokens(input.userTurn);
+
+    let summary = input.summary || null;
+    let summaryUntil = input.summaryUntil ? new Date(input.summaryUntil) : null;
+    // Turns newer than the summary are candidates for verbatim inclusion
+    let pending = summaryUntil
+      ? input.history.filter(msg => new Date(msg.created_at) > (summaryUntil as Date))
+      : [...input.history];
+
+    const summaryTokens = () => (summary ? estimateMessageTokens(this.summaryMessage(summary)) : 0);
+
+    if (input.conversationId && fixedTokens + summaryTokens() + this.countTokens(pending) > budget) {
+      const target = Math.floor(budget * TRIM_TARGET_RATIO) - fixedTokens - SUMMARY_MAX_TOKENS;
+      const keepFrom = this.findKeepIndex(pending, target);
+      const toFold = pending.slice(0, keepFrom);
+      if (toFold.length > 0) {
+        const refreshed = await this.summarize(input, summary, toFold);
+        if (refreshed) {
+          summary = refreshed;
+          summaryUntil = new Date(toFold[toFold.length - 1].created_at);
+          pending = pending.slice(keepFrom);
+          try {
+            await conversationService.updateSummary(input.conversationId, summary, summaryUntil);
+          } catch (error) {
+            console.warn(`⚠️ [ContextBuilder] Failed to store summary for ${input.conversationId}:`, error);
+          }
+        }
+      }
+    }
+
+    // Final fit, newest first (also covers a failed summary or a single oversized turn)
+    const available = budget - fixedTokens - summaryTokens();
+    const included: LLMMessage[] = [];
+    let usedTokens = 0;
+    for (let i = pending.length - 1; i >= 0; i--) {
+      const turn = this.toLLMMessage(pending[i]);
+      const tokens = estimateMessageTokens(turn);
+      if (usedTokens + tokens > available) break;
+      included.unshift(turn);
+      usedTokens += tokens;
+    }
+
+    const messages: LLMMessage[] = [
+      systemMessage,
+      ...(summary ? [this.summaryMessage(summary)] : []),
+      ...included,
+      input.userTurn
+    ];
+    const droppedTurns = input.history.length - included.length;
+    if (droppedTurns > 0) {
+      console.log(`🧠 [ContextBuilder] ${input.modelId}: ${included.length}/${input.history.length} turns verbatim, summary ${summary ? 'included' : 'none'}, ~${fixedTokens + summaryTokens() + usedTokens}/${budget} tokens`);
+    }
+
+    return {
+      messages,
+      promptTokens: fixedTokens + summaryTokens() + usedTokens,
+      budget,
+      includedTurns: included.length,
+      droppedTurns,
+      summarized: !!summary
+    };
+  }
+
+  /**
+   * Prompt token budget for a model: its window minus the reply reservation, capped for cost
+   */
+  getPromptBudget(contextWindow: number, maxCompletionTokens?: number): number {
+    const reserve = maxCompletionTokens ?? DEFAULT_COMPLETION_TOKENS;
+    return Math.max(1, Math.min(MAX_PROMPT_TOKENS, Math.floor((contextWindow - reserve) * SAFETY_RATIO)));
+  }
+
+  private async getContextWindow(modelId: string): Promise<number> {
+    const model = await modelManager.getModelById(modelId);
+    return model?.context_window || DEFAULT_CONTEXT_WINDOW;
+  }
+
+  /**
+   * Smallest index such that the turns from it onward fit within `target` tokens
+   */
+  private findKeepIndex(turns: ConversationMessage[], target: number): number {
+    let used = 0;
+    for (let i = turns.length - 1; i >= 0; i--) {
+      used += estimateMessageTokens(this.toLLMMessage(turns[i]));
+      if (used > target) return i + 1;
+    }
+    return 0;
+  }
+
+  /**
+   * Fold turns into the running summary. Returns null when the summary call fails.
+   */
+  private async summarize(
+    input: ContextBuildInput,
+    previousSummary: string | null,
+    turns: ConversationMessage[]
+  ): Promise<string | null> {
+    const model = process.env.CONTEXT_SUMMARY_MODEL || input.modelId;
+    const transcript = turns
+      .map(msg => `${msg.role === 'user' ? 'User' : 'Assistant'}: ${msg.content}`)
+      .join('\n\n');
+    const startTime = Date.now();
+
+    try {
+      const result = await structuredOutputService.generate({
+        schema: SummarySchema,
+        schemaName: 'ConversationSummary',
+        model,
+        responseMode: 'json_object',
+        maxRepairAttempts: 0,
+        options: {
+          temperature: 0.2,
+          maxTokens: SUMMARY_MAX_TOKENS * 2,
+          timeout: 20000,
+          requestId: input.requestId ? `${input.requestId}_summary` : undefined,
+          priority: input.priority
+        },
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You maintain the memory of a long chat between a user and a regional Spanish persona. ' +
+              'Merge the previous summary and the new transcript into one updated summary written in the third person. ' +
+              'Keep facts about the user (name, level, goals, preferences), topics covered, words and expressions already taught, ' +
+              `promises or open questions. Drop small talk. At most ${SUMMARY_MAX_TOKENS} tokens. ` +
+              'Return ONLY a JSON object: {"summary": "..."}'
+          },
+          {
+            role: 'user',
+            content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew transcript:\n${transcript}`
+          }
+        ]
+      });
+
+      console.log(`📝 [ContextBuilder] Folded ${turns.length} turns into the summary for ${input.conversationId} in ${Date.now() - startTime}ms`);
+      if (input.userId && result.usage) {
+        await usageService.recordAuxiliaryUsage(input.userId, model, result.usage);
+      }
+      return result.data.summary.trim();
+    } catch (error: any) {
+      console.warn(`⚠️ [ContextBuilder] Summary failed for ${input.conversationId}, truncating instead:`, error?.message || error);
+      return null;
+    }
+  }
+
+  private summaryMessage(summary: string): LLMMessage {
+    return {
+      role: 'system',
+      content: `Summary of the earlier conversation (older turns are not shown):\n${summary}`
+    };
+  }
+
+  private toLLMMessage(msg: ConversationMessage): LLMMessage {
+    return { role: msg.role as 'user' | 'assistant', content: msg.content };
+  }
+
+  private countTokens(turns: ConversationMessage[]): number {
+    return turns.reduce((sum, msg) => sum + estimateMessageTokens(this.toLLMMessage(msg)), 0);
+  }
+}
+
+// Export singleton instance
+export const contextBuilder = new ContextBuilder();
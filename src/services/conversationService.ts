@@ -1,14 +1,42 @@
-import { Conversation, ConversationMessage, ConversationModel } from '../models/conversation';
-import { PrismaClient } from '@prisma/client';
+import { Conversation, ConversationMessage, ConversationModel, ConversationBranch, ConversationTree, ResponseCandidate, ConversationListView, ConversationFilters } from '../models/conversation';
+import { randomUUID } from 'crypto';
+import { Formality, GenerationSettings, TutorFeedback } from '../types';
+import { PrismaClient, Prisma } from '@prisma/client';
+import { generationRegistry } from './generationRegistry';
+import { customInstructionsService } from './customInstructionsService';
 
 // Initialize Prisma
 const prisma = new PrismaClient();
 
+// Days a trashed conversation can be restored before it is purged
+const TRASH_RETENTION_DAYS = parseInt(process.env.TRASH_RETENTION_DAYS || '30');
+
+// Conversations in the main list and search results
+export const VISIBLE_CONVERSATION_FILTER = { deleted_at: null, archived_at: null } as const;
+
+/**
+ * Ownership plus folder/tag filters, as an AND so callers can add their own OR
+ */
+export function buildConversationWhere(userId: string, filters: ConversationFilters = {}): Prisma.ConversationWhereInput {
+  const conditions: Prisma.ConversationWhereInput[] = [
+    filters.sharedFolder && filters.folderId
+      ? { OR: [{ user_id: userId }, { folder_id: filters.folderId }] }
+      : { user_id: userId }
+  ];
+  if (filters.folderId !== undefined) {
+    conditions.push({ folder_id: filters.folderId });
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    conditions.push({ tags: { hasEvery: filters.tags } });
+  }
+  return { AND: conditions };
+}
+
 export class ConversationService {
   /**
    * Create a new conversation
    */
-  async createConversation(conversationData: { user_id: string; title?: string; model?: string; persona_id?: string; id?: string; email?: string; name?: string }): Promise<Conversation> {
+  async createConversation(conversationData: { user_id: string; title?: string; model?: string; persona_id?: string; formality?: Formality | null; tutor_mode?: boolean; id?: string; email?: string; name?: string; created_at?: Date }): Promise<Conversation> {
     const startTime = Date.now();
     console.log(`[ConversationService] createConversation started for user ${conversationData.user_id} at ${new Date(startTime).toISOString()}`);
 
@@ -23,7 +51,10 @@ export class ConversationService {
         title: conversationData.title || '',
         model: conversationData.model || process.env.OPENROUTER_MODEL || 'google/gemma-3-27b-it',
         persona_id: conversationData.persona_id ?? null,
-        // Prisma handles created_at default; explicitly set updated_at
+        formality: conversationData.formality ?? null,
+        tutor_mode: conversationData.tutor_mode ?? false,
+        // Prisma handles created_at default (imports keep the original); explicitly set updated_at
+        created_at: conversationData.created_at,
         updated_at: new Date(),
         message_count: 0,
         is_active: true
@@ -51,15 +82,19 @@ export class ConversationService {
   }
 
   /**
-   * Get user's conversations
+   * Get user's conversations (archived and trashed ones only in their own views)
    */
-  async getUserConversations(userId: string): Promise<Conversation[]> {
+  async getUserConversations(userId: string, view: ConversationListView = 'active', filters: ConversationFilters = {}): Promise<Conversation[]> {
     const startTime = Date.now();
-    console.log(`[ConversationService] getUserConversations started for user ${userId} at ${new Date(startTime).toISOString()}`);
+    console.log(`[ConversationService] getUserConversations (${view}) started for user ${userId} at ${new Date(startTime).toISOString()}`);
 
+    const viewFilter: Prisma.ConversationWhereInput =
+      view === 'trash' ? { deleted_at: { not: null } }
+      : view === 'archived' ? { deleted_at: null, archived_at: { not: null } }
+      : VISIBLE_CONVERSATION_FILTER;
     const rows = await prisma.conversation.findMany({
-      where: { user_id: userId },
-      orderBy: { updated_at: 'desc' }
+      where: { ...buildConversationWhere(userId, filters), ...viewFilter },
+      orderBy: view === 'trash' ? { deleted_at: 'desc' } : { updated_at: 'desc' }
     });
     console.log(`[ConversationService] getUserConversations completed for user ${userId}, found ${rows.length} at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
 
@@ -86,6 +121,205 @@ export class ConversationService {
     return updated as unknown as Conversation;
   }
 
+  /**
+   * Apply a validated PUT/PATCH in one transaction: conversation fields, generation settings
+   * (null clears them) and custom instructions (a new version when changed)
+   */
+  async applyConversationUpdate(
+    id: string,
+    userId: string,
+    update: {
+      fields: Partial<Omit<Conversation, 'id' | 'user_id' | 'created_at'>>;
+      generationSettings?: GenerationSettings | null;
+      instructions?: string | null;
+    }
+  ): Promise<Conversation> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] applyConversationUpdate started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    const data: Prisma.ConversationUpdateInput = { ...(update.fields as Prisma.ConversationUpdateInput), updated_at: new Date() };
+    if (update.generationSettings !== undefined) {
+      data.generation_settings = update.generationSettings === null ? Prisma.DbNull : (update.generationSettings as Prisma.InputJsonValue);
+    }
+    const updated = await prisma.$transaction(async (tx) => {
+      if (update.instructions !== undefined) {
+        await customInstructionsService.setConversationInstructions(id, userId, update.instructions, tx);
+      }
+      return tx.conversation.update({ where: { id }, data });
+    });
+    console.log(`[ConversationService] applyConversationUpdate completed for id ${id}, time: ${Date.now() - startTime}ms`);
+
+    return updated as unknown as Conversation;
+  }
+
+  /**
+   * Store an automatically generated title (null only records that the title was checked).
+   * Returns false when the user renamed the conversation in the meantime.
+   */
+  async updateGeneratedTitle(id: string, title: string | null, messageCount: number): Promise<boolean> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] updateGeneratedTitle started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    const result = await prisma.conversation.updateMany({
+      where: { id, title_source: { not: 'user' } },
+      data: title
+        ? { title, title_source: 'generated', title_message_count: messageCount }
+        : { title_message_count: messageCount }
+    });
+    console.log(`[ConversationService] updateGeneratedTitle completed for id ${id} (${result.count ? 'updated' : 'skipped, user title'}), time: ${Date.now() - startTime}ms`);
+
+    return result.count > 0;
+  }
+
+  /**
+   * Replace conversation generation settings (null clears them)
+   */
+  async updateGenerationSettings(id: string, settings: GenerationSettings | null): Promise<Conversation> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] updateGenerationSettings started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    const updated = await prisma.conversation.update({
+      where: { id },
+      data: {
+        generation_settings: settings === null ? Prisma.DbNull : (settings as Prisma.InputJsonValue),
+        updated_at: new Date()
+      }
+    });
+    console.log(`[ConversationService] updateGenerationSettings completed for id ${id} at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
+
+    return updated as unknown as Conversation;
+  }
+
+  /**
+   * Store the rolling summary of older turns (covers messages created up to `until`)
+   */
+  async updateSummary(id: string, summary: string, until: Date): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] updateSummary started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    await prisma.conversation.update({
+      where: { id },
+      data: { summary, summary_until: until }
+    });
+    console.log(`[ConversationService] updateSummary completed for id ${id} (${summary.length} chars), time: ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Archive or unarchive a conversation
+   */
+  async setArchived(id: string, archived: boolean): Promise<Conversation> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] setArchived(${archived}) started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    const updated = await prisma.conversation.update({
+      where: { id },
+      data: { archived_at: archived ? new Date() : null }
+    });
+    console.log(`[ConversationService] setArchived completed for id ${id}, time: ${Date.now() - startTime}ms`);
+
+    return updated as unknown as Conversation;
+  }
+
+  /**
+   * Move a conversation to the trash (restorable until purged)
+   */
+  async trashConversation(id: string): Promise<Conversation> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] trashConversation started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    const updated = await prisma.conversation.update({
+      where: { id },
+      data: { deleted_at: new Date(), is_active: false }
+    });
+    console.log(`[ConversationService] trashConversation completed for id ${id}, time: ${Date.now() - startTime}ms`);
+
+    return updated as unknown as Conversation;
+  }
+
+  /**
+   * Move every conversation of a user to the trash. Returns how many were trashed.
+   */
+  async trashAllConversations(userId: string): Promise<number> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] trashAllConversations started for user ${userId} at ${new Date(startTime).toISOString()}`);
+
+    const result = await prisma.conversation.updateMany({
+      where: { user_id: userId, deleted_at: null },
+      data: { deleted_at: new Date(), is_active: false }
+    });
+    console.log(`[ConversationService] trashAllConversations completed for user ${userId}, trashed ${result.count}, time: ${Date.now() - startTime}ms`);
+
+    return result.count;
+  }
+
+  /**
+   * Take a conversation out of the trash
+   */
+  async restoreConversation(id: string): Promise<Conversation> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] restoreConversation started for id ${id} at ${new Date(startTime).toISOString()}`);
+
+    const updated = await prisma.conversation.update({
+      where: { id },
+      data: { deleted_at: null, is_active: true }
+    });
+    console.log(`[ConversationService] restoreConversation completed for id ${id}, time: ${Date.now() - startTime}ms`);
+
+    return updated as unknown as Conversation;
+  }
+
+  /**
+   * Restore everything in a user's trash (e.g. after an accidental "delete all"). Returns the count.
+   */
+  async restoreAllConversations(userId: string): Promise<number> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] restoreAllConversations started for user ${userId} at ${new Date(startTime).toISOString()}`);
+
+    const result = await prisma.conversation.updateMany({
+      where: { user_id: userId, deleted_at: { not: null } },
+      data: { deleted_at: null, is_active: true }
+    });
+    console.log(`[ConversationService] restoreAllConversations completed for user ${userId}, restored ${result.count}, time: ${Date.now() - startTime}ms`);
+
+    return result.count;
+  }
+
+  /**
+   * Permanently delete a user's trashed conversations. Returns the count.
+   */
+  async emptyTrash(userId: string): Promise<number> {
+    const trashed = await prisma.conversation.findMany({
+      where: { user_id: userId, deleted_at: { not: null } },
+      select: { id: true }
+    });
+    await this.purgeConversations(trashed.map(c => c.id));
+    return trashed.length;
+  }
+
+  /**
+   * Permanently delete conversations trashed longer than TRASH_RETENTION_DAYS. Returns the count.
+   */
+  async purgeExpiredTrash(): Promise<number> {
+    const startTime = Date.now();
+    const cutoff = new Date(startTime - TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    const expired = await prisma.conversation.findMany({
+      where: { deleted_at: { lt: cutoff } },
+      select: { id: true }
+    });
+    if (expired.length === 0) return 0;
+
+    await this.purgeConversations(expired.map(c => c.id));
+    console.log(`🧹 [ConversationService] Purged ${expired.length} conversations trashed before ${cutoff.toISOString()}, time: ${Date.now() - startTime}ms`);
+    return expired.length;
+  }
+
+  /**
+   * Days a trashed conversation stays restorable
+   */
+  getTrashRetentionDays(): number {
+    return TRASH_RETENTION_DAYS;
+  }
+
   /**
    * Delete conversation
    */
@@ -100,6 +334,10 @@ export class ConversationService {
         await tx.conversationMessage.deleteMany({ where: { conversation_id: id } });
         // Remove model switches
         await tx.conversationModel.deleteMany({ where: { conversation_id: id } });
+        // Remove compare-mode candidates
+        await tx.responseCandidate.deleteMany({ where: { conversation_id: id } });
+        // Remove custom instruction history
+        await tx.customInstructionVersion.deleteMany({ where: { conversation_id: id } });
         // Remove shared conversation entries
         await tx.sharedConversation.deleteMany({ where: { conversation_id: id } });
         // Remove analytics row if exists
@@ -135,15 +373,7 @@ export class ConversationService {
         return;
       }
 
-      // Perform deletions in a single transaction to ensure integrity
-      await prisma.$transaction(async (tx) => {
-        await tx.conversationMessage.deleteMany({ where: { conversation_id: { in: ids } } });
-        await tx.conversationModel.deleteMany({ where: { conversation_id: { in: ids } } });
-        await tx.sharedConversation.deleteMany({ where: { conversation_id: { in: ids } } });
-        await tx.conversationAnalytics.deleteMany({ where: { conversation_id: { in: ids } } });
-        // Finally delete the conversations themselves
-        await tx.conversation.deleteMany({ where: { id: { in: ids } } });
-      });
+      await this.purgeConversations(ids);
 
       console.log(`[ConversationService] deleteAllConversations completed for user ${userId} at ${new Date().toISOString()}, deleted ${ids.length} conversations, time: ${Date.now() - startTime}ms`);
     } catch (e: any) {
@@ -153,6 +383,24 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Permanently delete conversations and their dependent rows
+   */
+  private async purgeConversations(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    // Perform deletions in a single transaction to ensure integrity
+    await prisma.$transaction(async (tx) => {
+      await tx.conversationMessage.deleteMany({ where: { conversation_id: { in: ids } } });
+      await tx.conversationModel.deleteMany({ where: { conversation_id: { in: ids } } });
+      await tx.responseCandidate.deleteMany({ where: { conversation_id: { in: ids } } });
+      await tx.customInstructionVersion.deleteMany({ where: { conversation_id: { in: ids } } });
+      await tx.sharedConversation.deleteMany({ where: { conversation_id: { in: ids } } });
+      await tx.conversationAnalytics.deleteMany({ where: { conversation_id: { in: ids } } });
+      // Finally delete the conversations themselves
+      await tx.conversation.deleteMany({ where: { id: { in: ids } } });
+    });
+  }
+
   /**
    * Sync conversation metadata from client
    */
@@ -160,10 +408,14 @@ export class ConversationService {
     const startTime = Date.now();
     console.log(`[ConversationService] syncConversationMetadata started for id ${conversationId} at ${new Date(startTime).toISOString()}`);
 
+    // A title that differs from ours was renamed on the client; stop automatic titling
+    const current = await prisma.conversation.findUnique({ where: { id: conversationId }, select: { title: true } });
+    const renamed = !!metadata.title && metadata.title !== current?.title;
     await prisma.conversation.update({
       where: { id: conversationId },
       data: {
-        title: metadata.title,
+        ...(metadata.title ? { title: metadata.title } : {}),
+        ...(renamed ? { title_source: 'user' } : {}),
         message_count: metadata.messageCount,
         updated_at: metadata.lastMessageAt
       }
@@ -178,50 +430,282 @@ export class ConversationService {
     const startTime = Date.now();
     console.log(`[ConversationService] addMessage started for conversation ${messageData.conversation_id} at ${new Date(startTime).toISOString()}`);
 
-    const now = new Date();
     // Create message and bump counts in a transaction
-    const created = await prisma.$transaction(async (tx) => {
-      const createdMsg = await tx.conversationMessage.create({
-        data: {
-          conversation_id: messageData.conversation_id,
-          role: messageData.role,
-          content: messageData.content,
-          model: messageData.model,
-          persona_id: messageData.persona_id ?? null,
-          tokens_used: messageData.tokens_used ?? null,
-          created_at: now
-        }
+    const created = await prisma.$transaction(tx => this.insertMessage(tx, messageData, new Date()));
+    console.log(`[ConversationService] addMessage completed for conversation ${messageData.conversation_id} at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
+
+    return created;
+  }
+
+  /**
+   * Insert a message inside a transaction and bump the conversation's message count
+   */
+  private async insertMessage(
+    tx: Prisma.TransactionClient,
+    messageData: Omit<ConversationMessage, 'id' | 'created_at'>,
+    now: Date
+  ): Promise<ConversationMessage> {
+    // Unless told otherwise, continue the active branch from its newest message
+    let branchId = messageData.branch_id;
+    let parentId = messageData.parent_id;
+    if (!branchId || parentId === undefined) {
+      const conv = await tx.conversation.findUnique({
+        where: { id: messageData.conversation_id },
+        select: { active_branch_id: true }
+      });
+      branchId = branchId || conv?.active_branch_id || 'main';
+      if (parentId === undefined) {
+        const leaf = await tx.conversationMessage.findFirst({
+          where: { conversation_id: messageData.conversation_id, branch_id: branchId },
+          orderBy: { created_at: 'desc' },
+          select: { id: true }
+        });
+        parentId = leaf?.id ?? null;
+      }
+    }
+
+    const createdMsg = await tx.conversationMessage.create({
+      data: {
+        conversation_id: messageData.conversation_id,
+        role: messageData.role,
+        content: messageData.content,
+        model: messageData.model,
+        persona_id: messageData.persona_id ?? null,
+        tokens_used: messageData.tokens_used ?? null,
+        prompt_tokens: messageData.prompt_tokens ?? null,
+        completion_tokens: messageData.completion_tokens ?? null,
+        status: messageData.status ?? 'complete',
+        attachments: messageData.attachments?.length ? (messageData.attachments as unknown as Prisma.InputJsonValue) : undefined,
+        quality_score: messageData.quality_score ?? null,
+        quality_issues: messageData.quality_issues ?? [],
+        quality_retries: messageData.quality_retries ?? 0,
+        parent_id: parentId,
+        branch_id: branchId,
+        created_at: now
+      }
+    });
+    await tx.conversation.update({
+      where: { id: messageData.conversation_id },
+      data: {
+        message_count: { increment: 1 },
+        updated_at: now
+      }
+    });
+    return createdMsg as unknown as ConversationMessage;
+  }
+
+  /**
+   * Append imported messages (oldest first) to the main branch, keeping their ids and timestamps
+   */
+  async importMessages(
+    conversationId: string,
+    messages: Array<Pick<ConversationMessage, 'id' | 'role' | 'content' | 'model' | 'tokens_used' | 'created_at'>>
+  ): Promise<number> {
+    if (messages.length === 0) return 0;
+    const startTime = Date.now();
+    console.log(`[ConversationService] importMessages started for conversation ${conversationId} (${messages.length}) at ${new Date(startTime).toISOString()}`);
+
+    const count = await prisma.$transaction(async (tx) => {
+      const leaf = await tx.conversationMessage.findFirst({
+        where: { conversation_id: conversationId, branch_id: 'main' },
+        orderBy: { created_at: 'desc' },
+        select: { id: true }
+      });
+
+      let parentId = leaf?.id ?? null;
+      const data = messages.map(msg => {
+        const row = {
+          id: msg.id,
+          conversation_id: conversationId,
+          role: msg.role,
+          content: msg.content,
+          model: msg.model,
+          tokens_used: msg.tokens_used ?? null,
+          parent_id: parentId,
+          branch_id: 'main',
+          created_at: msg.created_at
+        };
+        parentId = msg.id;
+        return row;
       });
+      const result = await tx.conversationMessage.createMany({ data });
+
+      const conv = await tx.conversation.findUnique({ where: { id: conversationId }, select: { updated_at: true } });
+      const lastAt = messages[messages.length - 1].created_at;
       await tx.conversation.update({
-        where: { id: messageData.conversation_id },
+        where: { id: conversationId },
         data: {
-          message_count: { increment: 1 },
-          updated_at: now
+          message_count: { increment: result.count },
+          updated_at: conv && conv.updated_at > lastAt ? conv.updated_at : lastAt
         }
       });
-      return createdMsg;
+      return result.count;
     });
-    console.log(`[ConversationService] addMessage completed for conversation ${messageData.conversation_id} at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
+    console.log(`[ConversationService] importMessages completed for conversation ${conversationId}, stored ${count} at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
+
+    return count;
+  }
 
-    return created as unknown as ConversationMessage;
+  /**
+   * Owner (conversation user_id) of each message id that already exists
+   */
+  async getMessageOwners(messageIds: string[]): Promise<Map<string, string>> {
+    if (messageIds.length === 0) return new Map();
+    const rows = await prisma.conversationMessage.findMany({
+      where: { id: { in: messageIds } },
+      select: { id: true, conversation: { select: { user_id: true } } }
+    });
+    return new Map(rows.map(row => [row.id, row.conversation.user_id]));
   }
 
   /**
-   * Get conversation messages
+   * Get conversation messages: the thread of the active branch (or `branchId`), oldest first
    */
-  async getConversationMessages(conversationId: string): Promise<ConversationMessage[]> {
+  async getConversationMessages(conversationId: string, branchId?: string): Promise<ConversationMessage[]> {
     const startTime = Date.now();
     console.log(`[ConversationService] getConversationMessages started for id ${conversationId} at ${new Date(startTime).toISOString()}`);
 
+    const [rows, conv] = await Promise.all([
+      this.getAllMessages(conversationId),
+      branchId ? null : prisma.conversation.findUnique({ where: { id: conversationId }, select: { active_branch_id: true } })
+    ]);
+    const branch = branchId || conv?.active_branch_id || 'main';
+    const leaf = [...rows].reverse().find(msg => (msg.branch_id || 'main') === branch);
+    const path = leaf ? this.buildPath(rows, leaf.id) : [];
+    console.log(`[ConversationService] getConversationMessages completed for id ${conversationId}, branch ${branch}: ${path.length}/${rows.length} messages at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
+
+    return path;
+  }
+
+  /**
+   * Thread ending at a message (root first); [] when messageId is null
+   */
+  async getMessagePath(conversationId: string, messageId: string | null): Promise<ConversationMessage[]> {
+    if (!messageId) return [];
+    const rows = await this.getAllMessages(conversationId);
+    return this.buildPath(rows, messageId);
+  }
+
+  /**
+   * Get a single message
+   */
+  async getMessage(messageId: string): Promise<ConversationMessage | null> {
+    const row = await prisma.conversationMessage.findUnique({ where: { id: messageId } });
+    return row as unknown as ConversationMessage | null;
+  }
+
+  /**
+   * Attach tutor mode corrections to a stored user message
+   */
+  async setTutorFeedback(messageId: string, feedback: TutorFeedback): Promise<void> {
+    await prisma.conversationMessage.update({
+      where: { id: messageId },
+      data: { tutor_feedback: feedback as unknown as Prisma.InputJsonValue }
+    });
+  }
+
+  /**
+   * Every message with its parent/branch, the branches and the active path
+   */
+  async getConversationTree(conversationId: string): Promise<ConversationTree> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] getConversationTree started for id ${conversationId} at ${new Date(startTime).toISOString()}`);
+
+    const [rows, conv] = await Promise.all([
+      this.getAllMessages(conversationId),
+      prisma.conversation.findUnique({ where: { id: conversationId }, select: { active_branch_id: true } })
+    ]);
+    const activeBranchId = conv?.active_branch_id || 'main';
+
+    const branches = new Map<string, ConversationBranch>();
+    for (const msg of rows) {
+      const branchId = msg.branch_id || 'main';
+      const existing = branches.get(branchId);
+      if (!existing) {
+        branches.set(branchId, {
+          branch_id: branchId,
+          fork_message_id: msg.parent_id ?? null,
+          first_message_id: msg.id,
+          leaf_message_id: msg.id,
+          message_count: 1,
+          created_at: msg.created_at,
+          is_active: branchId === activeBranchId
+        });
+      } else {
+        existing.leaf_message_id = msg.id;
+        existing.message_count++;
+      }
+    }
+
+    const activeLeaf = branches.get(activeBranchId)?.leaf_message_id;
+    const activePath = activeLeaf ? this.buildPath(rows, activeLeaf).map(msg => msg.id) : [];
+    console.log(`[ConversationService] getConversationTree completed for id ${conversationId}: ${rows.length} messages, ${branches.size} branches, time: ${Date.now() - startTime}ms`);
+
+    return {
+      conversation_id: conversationId,
+      active_branch_id: activeBranchId,
+      active_path: activePath,
+      branches: Array.from(branches.values()),
+      messages: rows
+    };
+  }
+
+  /**
+   * Make a branch the one shown and continued by default.
+   * The rolling summary is time-based and belongs to the previous branch, so it is reset.
+   */
+  async setActiveBranch(conversationId: string, branchId: string): Promise<void> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] setActiveBranch started for id ${conversationId} -> ${branchId} at ${new Date(startTime).toISOString()}`);
+
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { active_branch_id: branchId, summary: null, summary_until: null }
+    });
+    console.log(`[ConversationService] setActiveBranch completed for id ${conversationId}, time: ${Date.now() - startTime}ms`);
+  }
+
+  /**
+   * Whether a branch has any messages in the conversation
+   */
+  async branchExists(conversationId: string, branchId: string): Promise<boolean> {
+    const count = await prisma.conversationMessage.count({
+      where: { conversation_id: conversationId, branch_id: branchId }
+    });
+    return count > 0;
+  }
+
+  /**
+   * New branch id for an edit/regenerate fork
+   */
+  createBranchId(): string {
+    return `branch-${randomUUID()}`;
+  }
+
+  private async getAllMessages(conversationId: string): Promise<ConversationMessage[]> {
     const rows = await prisma.conversationMessage.findMany({
       where: { conversation_id: conversationId },
       orderBy: { created_at: 'asc' }
     });
-    console.log(`[ConversationService] getConversationMessages completed for id ${conversationId}, found ${rows.length} at ${new Date().toISOString()}, time: ${Date.now() - startTime}ms`);
-
     return rows as unknown as ConversationMessage[];
   }
 
+  /**
+   * Walk parent pointers from a message up to the root
+   */
+  private buildPath(rows: ConversationMessage[], leafId: string): ConversationMessage[] {
+    const byId = new Map(rows.map(msg => [msg.id, msg]));
+    const path: ConversationMessage[] = [];
+    const seen = new Set<string>();
+    let current = byId.get(leafId);
+    while (current && !seen.has(current.id)) {
+      seen.add(current.id);
+      path.unshift(current);
+      current = current.parent_id ? byId.get(current.parent_id) : undefined;
+    }
+    return path;
+  }
+
   /**
    * Get message count for conversation
    */
@@ -287,6 +771,104 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Store one compare-mode reply
+   */
+  async addResponseCandidate(candidate: Omit<ResponseCandidate, 'selected' | 'assistant_message_id' | 'created_at'>): Promise<ResponseCandidate> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] addResponseCandidate started for compare ${candidate.compare_id} (${candidate.model}) at ${new Date(startTime).toISOString()}`);
+
+    const created = await prisma.responseCandidate.create({
+      data: {
+        id: candidate.id,
+        compare_id: candidate.compare_id,
+        conversation_id: candidate.conversation_id,
+        user_message_id: candidate.user_message_id,
+        model: candidate.model,
+        content: candidate.content,
+        status: candidate.status,
+        error_code: candidate.error_code ?? null,
+        prompt_tokens: candidate.prompt_tokens ?? null,
+        completion_tokens: candidate.completion_tokens ?? null,
+        latency_ms: candidate.latency_ms ?? null
+      }
+    });
+    console.log(`[ConversationService] addResponseCandidate completed for compare ${candidate.compare_id}, time: ${Date.now() - startTime}ms`);
+
+    return created as unknown as ResponseCandidate;
+  }
+
+  /**
+   * Candidates of one compare request, in the order they were stored
+   */
+  async getResponseCandidates(conversationId: string, compareId: string): Promise<ResponseCandidate[]> {
+    const rows = await prisma.responseCandidate.findMany({
+      where: { conversation_id: conversationId, compare_id: compareId },
+      orderBy: { created_at: 'asc' }
+    });
+    return rows as unknown as ResponseCandidate[];
+  }
+
+  /**
+   * Pick the winning candidate: it is stored as the assistant reply to the compared user message,
+   * and its model becomes the conversation model (logged with reason 'performance').
+   * Returns null when the candidate does not exist, is still streaming, failed, or the comparison already has a winner.
+   */
+  async selectResponseCandidate(
+    conversationId: string,
+    candidateId: string
+  ): Promise<{ candidate: ResponseCandidate; message: ConversationMessage } | null> {
+    const startTime = Date.now();
+    console.log(`[ConversationService] selectResponseCandidate started for ${candidateId} in conversation ${conversationId} at ${new Date(startTime).toISOString()}`);
+
+    if (generationRegistry.get(candidateId)) {
+      return null;
+    }
+    const candidate = await prisma.responseCandidate.findUnique({ where: { id: candidateId } });
+    if (!candidate || candidate.conversation_id !== conversationId || candidate.status === 'failed' || !candidate.content) {
+      return null;
+    }
+
+    const userMessage = await this.getMessage(candidate.user_message_id);
+    const selection = await prisma.$transaction(async (tx) => {
+      const group = { compare_id: candidate.compare_id, conversation_id: conversationId };
+      // Row-locks the comparison's candidates, so a concurrent selection waits here and then sees this winner
+      await tx.responseCandidate.updateMany({ where: { ...group, selected: false }, data: { selected: false } });
+      const winners = await tx.responseCandidate.count({ where: { ...group, selected: true } });
+      if (winners > 0) return null;
+      const claimed = await tx.responseCandidate.updateMany({ where: { id: candidateId, selected: false }, data: { selected: true } });
+      if (claimed.count !== 1) return null;
+
+      const message = await this.insertMessage(tx, {
+        conversation_id: conversationId,
+        role: 'assistant',
+        content: candidate.content,
+        model: candidate.model,
+        persona_id: userMessage?.persona_id,
+        tokens_used: (candidate.prompt_tokens ?? 0) + (candidate.completion_tokens ?? 0) || undefined,
+        prompt_tokens: candidate.prompt_tokens ?? undefined,
+        completion_tokens: candidate.completion_tokens ?? undefined,
+        status: candidate.status === 'partial' ? 'partial' : 'complete',
+        parent_id: candidate.user_message_id,
+        branch_id: userMessage?.branch_id
+      }, new Date());
+      const updated = await tx.responseCandidate.update({
+        where: { id: candidateId },
+        data: { assistant_message_id: message.id }
+      });
+      return { candidate: updated as unknown as ResponseCandidate, message };
+    });
+    if (!selection) {
+      console.log(`[ConversationService] selectResponseCandidate skipped for ${candidateId}: comparison ${candidate.compare_id} already has a winner`);
+      return null;
+    }
+
+    await this.switchModel(conversationId, candidate.model, 'performance');
+    console.log(`[ConversationService] selectResponseCandidate completed for ${candidateId} (${candidate.model}), time: ${Date.now() - startTime}ms`);
+
+    return selection;
+  }
+
   /**
    * Get current model for conversation (latest from model history or conversation model field)
    */
@@ -360,6 +942,7 @@ export class ConversationService {
     const rows = await prisma.conversation.findMany({
       where: {
         user_id: userId,
+        ...VISIBLE_CONVERSATION_FILTER,
         OR: [
           { title: { contains: query, mode: 'insensitive' } },
           {
@@ -0,0 +1,146 @@
+import { PrismaClient, Prisma } from '@prisma/client';
+import { Conversation, CustomInstructionVersion } from '../models/conversation';
+
+const prisma = new PrismaClient();
+
+export interface InstructionLayer {
+  content: string;
+  version: number;
+}
+
+// What promptComposer layers on the persona prompt, least specific first
+export interface InstructionLayers {
+  defaults: InstructionLayer | null;     // UserSettings.custom_instructions
+  conversation: InstructionLayer | null; // Conversation.custom_instructions
+}
+
+const CUSTOM_INSTRUCTIONS_MAX_CHARS = parseInt(process.env.CUSTOM_INSTRUCTIONS_MAX_CHARS || '2000');
+
+/**
+ * Custom instructions ("correct my grammar", "talk about football", "use usted"): account defaults
+ * in UserSettings plus per-conversation instructions. Every edit is stored as a new version.
+ */
+export class CustomInstructionsService {
+  /**
+   * Validate instructions from a request body: a string (blank clears them) or null
+   */
+  normalize(raw: unknown): { content: string | null; error?: string } {
+    if (raw === null) return { content: null };
+    if (typeof raw !== 'string') return { content: null, error: 'instructions must be a string or null' };
+    const content = raw.replace(/\r\n/g, '\n').trim();
+    if (content.length > CUSTOM_INSTRUCTIONS_MAX_CHARS) {
+      return { content: null, error: `instructions must be at most ${CUSTOM_INSTRUCTIONS_MAX_CHARS} characters` };
+    }
+    return { content: content || null };
+  }
+
+  async getUserDefaults(userId: string): Promise<InstructionLayer | null> {
+    const settings = await prisma.userSettings.findUnique({
+      where: { user_id: userId },
+      select: { custom_instructions: true, custom_instructions_version: true }
+    });
+    return settings?.custom_instructions
+      ? { content: settings.custom_instructions, version: settings.custom_instructions_version }
+      : null;
+  }
+
+  /**
+   * Replace the user's default instructions; unchanged text does not create a version
+   */
+  async setUserDefaults(userId: string, content: string | null): Promise<{ content: string | null; version: number }> {
+    return prisma.$transaction(async (tx) => {
+      const current = await tx.userSettings.findUnique({
+        where: { user_id: userId },
+        select: { custom_instructions: true, custom_instructions_version: true }
+      });
+      if (current && (current.custom_instructions ?? null) === content) {
+        return { content, version: current.custom_instructions_version };
+      }
+
+      const version = (current?.custom_instructions_version ?? 0) + 1;
+      await tx.userSettings.upsert({
+        where: { user_id: userId },
+        update: { custom_instructions: content, custom_instructions_version: version },
+        create: { user_id: userId, custom_instructions: content, custom_instructions_version: version }
+      });
+      await tx.customInstructionVersion.create({
+        data: { user_id: userId, conversation_id: null, version, content }
+      });
+      console.log(`📝 [CustomInstructions] Default instructions v${version} for user ${userId}`);
+      return { content, version };
+    });
+  }
+
+  /**
+   * Replace a conversation's instructions; unchanged text does not create a version.
+   * Pass `tx` to take part in a caller's transaction.
+   */
+  async setConversationInstructions(
+    conversationId: string,
+    userId: string,
+    content: string | null,
+    tx?: Prisma.TransactionClient
+  ): Promise<{ content: string | null; version: number }> {
+    const write = async (tx: Prisma.TransactionClient) => {
+      const current = await tx.conversation.findUnique({
+        where: { id: conversationId },
+        select: { custom_instructions: true, custom_instructions_version: true }
+      });
+      if (!current) {
+        throw new Error(`Conversation ${conversationId} not found`);
+      }
+      if ((current.custom_instructions ?? null) === content) {
+        return { content, version: current.custom_instructions_version };
+      }
+
+      const updated = await tx.conversation.update({
+        where: { id: conversationId },
+        data: { custom_instructions: content, custom_instructions_version: { increment: 1 } },
+        select: { custom_instructions_version: true }
+      });
+      await tx.customInstructionVersion.create({
+        data: { user_id: userId, conversation_id: conversationId, version: updated.custom_instructions_version, content }
+      });
+      console.log(`📝 [CustomInstructions] Conversation ${conversationId} instructions v${updated.custom_instructions_version}`);
+      return { content, version: updated.custom_instructions_version };
+    };
+    return tx ? write(tx) : prisma.$transaction(write);
+  }
+
+  /**
+   * Edit history, newest first: a conversation's, or the user's defaults when conversationId is null
+   */
+  async getVersions(userId: string, conversationId: string | null): Promise<CustomInstructionVersion[]> {
+    const rows = await prisma.customInstructionVersion.findMany({
+      where: conversationId ? { conversation_id: conversationId } : { user_id: userId, conversation_id: null },
+      orderBy: { version: 'desc' }
+    });
+    return rows as unknown as CustomInstructionVersion[];
+  }
+
+  /**
+   * The layers that apply to a conversation. Failing to load the defaults never blocks a chat.
+   */
+  async getLayers(
+    userId: string | undefined,
+    conversation?: Pick<Conversation, 'custom_instructions' | 'custom_instructions_version'> | null
+  ): Promise<InstructionLayers> {
+    let defaults: InstructionLayer | null = null;
+    if (userId) {
+      try {
+        defaults = await this.getUserDefaults(userId);
+      } catch (error) {
+        console.warn(`⚠️ [CustomInstructions] Could not load default instructions for ${userId}:`, error);
+      }
+    }
+    return {
+      defaults,
+      conversation: conversation?.custom_instructions
+        ? { content: conversation.custom_instructions, version: conversation.custom_instructions_version ?? 0 }
+        : null
+    };
+  }
+}
+
+// Export singleton instance
+export const customInstructionsService = new CustomInstructionsService();
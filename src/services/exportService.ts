@@ -0,0 +1,307 @@
+import { conversationService } from './conversationService';
+import { analyticsService } from './analyticsService';
+import { personaService } from './personaService';
+import { PdfWriter } from './pdfWriter';
+import { createZip, ZipEntry } from './zipWriter';
+import { Conversation, ConversationMessage } from '../models/conversation';
+
+export type ConversationExportFormat = 'json' | 'csv' | 'markdown' | 'html' | 'pdf' | 'jsonl';
+
+export const CONVERSATION_EXPORT_FORMATS: ConversationExportFormat[] = ['json', 'csv', 'markdown', 'html', 'pdf', 'jsonl'];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+interface ExportTranscript {
+  conversation: Conversation;
+  personaName: string | null;
+  messages: Array<ConversationMessage & { speaker: string }>;
+}
+
+const FORMAT_FILES: Record<ConversationExportFormat, { extension: string; contentType: string }> = {
+  json: { extension: 'json', contentType: 'application/json; charset=utf-8' },
+  csv: { extension: 'csv', contentType: 'text/csv; charset=utf-8' },
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+  jsonl: { extension: 'jsonl', contentType: 'application/x-ndjson; charset=utf-8' }
+};
+
+const BULK_EXPORT_MAX_CONVERSATIONS = parseInt(process.env.BULK_EXPORT_MAX_CONVERSATIONS || '1000');
+
+/**
+ * Conversation transcripts in downloadable formats. Every format exports the active branch
+ * with timestamps and the persona's name; jsonl is chat fine-tuning data ({"messages": [...]} per conversation).
+ */
+export class ExportService {
+  async exportConversation(conversationId: string, format: ConversationExportFormat): Promise<ExportFile> {
+    const transcript = await this.loadTranscript(conversationId);
+    if (!transcript) {
+      throw new Error('Failed to fetch conversation');
+    }
+
+    const { extension, contentType } = FORMAT_FILES[format];
+    return {
+      filename: `conversation-${conversationId}.${extension}`,
+      contentType,
+      body: await this.render(transcript, format)
+    };
+  }
+
+  /**
+   * Every conversation of the user (trash excluded) as one zip: a file per conversation,
+   * or a single conversations.jsonl for the training-data format
+   */
+  async exportAllConversations(userId: string, format: ConversationExportFormat): Promise<ExportFile> {
+    const startTime = Date.now();
+    const conversations = [
+      ...(await conversationService.getUserConversations(userId, 'active')),
+      ...(await conversationService.getUserConversations(userId, 'archived'))
+    ].slice(0, BULK_EXPORT_MAX_CONVERSATIONS);
+
+    const { extension } = FORMAT_FILES[format];
+    const entries: ZipEntry[] = [];
+    const jsonlLines: string[] = [];
+    const usedNames = new Set<string>();
+
+    for (const conversation of conversations) {
+      const transcript = await this.loadTranscript(conversation.id, conversation);
+      if (!transcript) continue;
+
+      if (format === 'jsonl') {
+        const line = this.renderJsonlLine(transcript);
+        if (line) jsonlLines.push(line);
+        continue;
+      }
+
+      let name = `${this.slugify(conversation.title) || 'conversation'}-${conversation.id.slice(0, 8)}`;
+      while (usedNames.has(name)) name = `${name}-1`;
+      usedNames.add(name);
+      entries.push({
+        name: `${name}.${extension}`,
+        data: await this.render(transcript, format),
+        date: new Date(conversation.updated_at)
+      });
+    }
+
+    if (format === 'jsonl') {
+      entries.push({ name: 'conversations.jsonl', data: jsonlLines.map(line => `${line}\n`).join('') });
+    }
+
+    const body = createZip(entries);
+    console.log(`📦 [ExportService] Exported ${conversations.length} conversations as ${format} for user ${userId} (${body.length} bytes) in ${Date.now() - startTime}ms`);
+    return {
+      filename: `conversations-${new Date().toISOString().slice(0, 10)}-${format}.zip`,
+      contentType: 'application/zip',
+      body
+    };
+  }
+
+  private async render(transcript: ExportTranscript, format: ConversationExportFormat): Promise<Buffer> {
+    switch (format) {
+      case 'json':
+        return Buffer.from(JSON.stringify(await this.renderJson(transcript), null, 2), 'utf8');
+      case 'csv':
+        return Buffer.from(this.renderCsv(transcript), 'utf8');
+      case 'markdown':
+        return Buffer.from(this.renderMarkdown(transcript), 'utf8');
+      case 'html':
+        return Buffer.from(this.renderHtml(transcript), 'utf8');
+      case 'pdf':
+        return this.renderPdf(transcript);
+      case 'jsonl': {
+        const line = this.renderJsonlLine(transcript);
+        return Buffer.from(line ? `${line}\n` : '', 'utf8');
+      }
+    }
+  }
+
+  private async loadTranscript(conversationId: string, loaded?: Conversation): Promise<ExportTranscript | null> {
+    const conversation = loaded ?? (await conversationService.getConversation(conversationId));
+    if (!conversation) return null;
+
+    const messages = await conversationService.getConversationMessages(conversationId);
+    const personaName = this.getPersonaName(conversation.persona_id);
+    return {
+      conversation,
+      personaName,
+      messages: messages.map(msg => ({
+        ...msg,
+        speaker: msg.role === 'user' ? 'You' : this.getPersonaName(msg.persona_id) || personaName || 'Assistant'
+      }))
+    };
+  }
+
+  private async renderJson(transcript: ExportTranscript) {
+    const { conversation, messages } = transcript;
+    return {
+      conversation: {
+        id: conversation.id,
+        title: conversation.title,
+        model: conversation.model,
+        persona_id: conversation.persona_id ?? null,
+        persona_name: transcript.personaName,
+        created_at: conversation.created_at,
+        updated_at: conversation.updated_at,
+        message_count: conversation.message_count
+      },
+      messages: messages.map(msg => ({
+        id: msg.id,
+        role: msg.role,
+        speaker: msg.speaker,
+        content: msg.content,
+        model: msg.model,
+        created_at: msg.created_at,
+        tokens_used: msg.tokens_used ?? null
+      })),
+      analytics: await analyticsService.getConversationAnalytics(conversation.id),
+      exported_at: new Date().toISOString()
+    };
+  }
+
+  private renderCsv(transcript: ExportTranscript): string {
+    const quote = (value: unknown) => `"${String(value ?? '').replace(/"/g, '""')}"`;
+    const header = ['Role', 'Speaker', 'Content', 'Model', 'Created At', 'Tokens Used'];
+    const rows = transcript.messages.map(msg => [
+      msg.role,
+      quote(msg.speaker),
+      quote(msg.content),
+      quote(msg.model),
+      this.formatDate(msg.created_at),
+      msg.tokens_used ?? ''
+    ].join(','));
+    return [header.join(','), ...rows].join('\n');
+  }
+
+  private renderMarkdown(transcript: ExportTranscript): string {
+    const { conversation, messages } = transcript;
+    const lines = [
+      `# ${conversation.title || 'Conversation'}`,
+      '',
+      ...(transcript.personaName ? [`- **Persona:** ${transcript.personaName}`] : []),
+      `- **Model:** ${conversation.model}`,
+      `- **Started:** ${this.formatDate(conversation.created_at)}`,
+      `- **Messages:** ${messages.length}`,
+      ''
+    ];
+    messages.forEach(msg => {
+      lines.push('---', '', `**${msg.speaker}** · ${this.formatDate(msg.created_at)}`, '', msg.content, '');
+    });
+    return lines.join('\n');
+  }
+
+  private renderHtml(transcript: ExportTranscript): string {
+    const { conversation, messages } = transcript;
+    const title = this.escapeHtml(conversation.title || 'Conversation');
+    const meta = [
+      transcript.personaName ? `Persona: ${this.escapeHtml(transcript.personaName)}` : null,
+      `Model: ${this.escapeHtml(conversation.model)}`,
+      `Started: ${this.formatDate(conversation.created_at)}`
+    ].filter(Boolean).join(' · ');
+    const body = messages.map(msg => `
+    <article class="message ${msg.role}">
+      <header><strong>${this.escapeHtml(msg.speaker)}</strong> <time datetime="${new Date(msg.created_at).toISOString()}">${this.formatDate(msg.created_at)}</time></header>
+      <div class="content">${this.escapeHtml(msg.content)}</div>
+    </article>`).join('');
+
+    return `<!DOCTYPE html>
+<html lang="es">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+  <style>
+    body { font-family: -apple-system, "Segoe UI", Helvetica, Arial, sans-serif; max-width: 760px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+    h1 { margin-bottom: 0.25rem; }
+    .meta { color: #59636e; margin-bottom: 2rem; }
+    .message { border-radius: 8px; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+    .message.user { background: #eef4ff; }
+    .message.assistant { background: #f6f8fa; }
+    .message header { font-size: 0.85rem; margin-bottom: 0.35rem; }
+    .message time { color: #59636e; margin-left: 0.5rem; }
+    .content { white-space: pre-wrap; line-height: 1.5; }
+  </style>
+</head>
+<body>
+  <h1>${title}</h1>
+  <div class="meta">${meta}</div>${body}
+</body>
+</html>
+`;
+  }
+
+  private renderPdf(transcript: ExportTranscript): Buffer {
+    const { conversation, messages } = transcript;
+    const pdf = new PdfWriter();
+    pdf.setFooter(conversation.title || 'Conversation');
+    pdf.addText(conversation.title || 'Conversation', { size: 18, bold: true, spaceAfter: 4 });
+    pdf.addText(
+      [
+        transcript.personaName ? `Persona: ${transcript.personaName}` : null,
+        `Model: ${conversation.model}`,
+        `Started: ${this.formatDate(conversation.created_at)}`
+      ].filter(Boolean).join('  ·  '),
+      { size: 9, color: [0.4, 0.4, 0.4] }
+    );
+    pdf.addRule(10);
+
+    messages.forEach(msg => {
+      pdf.addText(`${msg.speaker}  ·  ${this.formatDate(msg.created_at)}`, {
+        size: 9,
+        bold: true,
+        color: msg.role === 'user' ? [0.12, 0.35, 0.75] : [0.2, 0.45, 0.25],
+        spaceBefore: 6,
+        spaceAfter: 2
+      });
+      pdf.addText(msg.content, { size: 10.5 });
+    });
+    return pdf.toBuffer();
+  }
+
+  /**
+   * One fine-tuning example; null when there is no complete assistant reply to learn from
+   */
+  private renderJsonlLine(transcript: ExportTranscript): string | null {
+    const turns = transcript.messages
+      .filter(msg => msg.status !== 'partial' && msg.content.trim())
+      .map(msg => ({ role: msg.role, content: msg.content }));
+    // A trailing unanswered user turn is not a training target
+    while (turns.length > 0 && turns[turns.length - 1].role !== 'assistant') turns.pop();
+    if (!turns.some(turn => turn.role === 'user')) return null;
+    return JSON.stringify({ messages: turns });
+  }
+
+  private getPersonaName(personaId?: string | null): string | null {
+    return personaId ? personaService.getPersona(personaId)?.displayName || null : null;
+  }
+
+  private formatDate(value: Date | string): string {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? '' : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+  }
+
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  private slugify(text: string): string {
+    return (text || '')
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60);
+  }
+}
+
+// Export singleton instance
+export const exportService = new ExportService();
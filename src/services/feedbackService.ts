@@ -37,7 +37,7 @@ export class FeedbackService {
     const feedback = Array.from(this.feedbackStore.values());
     const debugData = Array.from(this.debugStore.values());
 
-    if (feedback.length === 0) {
+    if (feedback.length === 0 && debugData.length === 0) {
       return {
         totalFeedback: 0,
         averageRating: 0,
@@ -54,7 +54,7 @@ export class FeedbackService {
 
     // Calculate basic stats
     const totalRating = feedback.reduce((sum, fb) => sum + fb.rating, 0);
-    const averageRating = totalRating / feedback.length;
+    const averageRating = feedback.length > 0 ? totalRating / feedback.length : 0;
 
     // Category breakdown
     const categoryBreakdown: Record<string, number> = {};
@@ -67,7 +67,7 @@ export class FeedbackService {
       .sort((a, b) => b.timestamp - a.timestamp)
       .slice(0, 10);
 
-    // Quality metrics from debug data
+    // Quality metrics from debug data (recorded by the chat pipeline for every reply)
     const qualityScores = debugData.map(d => d.qualityScore);
     const responseLengths = debugData.map(d => d.assistantResponse.length);
     const retryRate = debugData.length > 0 ?
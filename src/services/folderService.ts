@@ -0,0 +1,260 @@
+import { PrismaClient } from '@prisma/client';
+import { Conversation, ConversationFilters, ConversationFolder } from '../models/conversation';
+
+const prisma = new PrismaClient();
+
+const MAX_FOLDER_NAME_LENGTH = 80;
+const MAX_TAGS_PER_CONVERSATION = 20;
+const MAX_TAG_LENGTH = 32;
+
+export type FolderAccess = 'none' | 'read' | 'manage';
+
+/**
+ * Conversation folders (personal, or shared with a team when team_id is set) and tag helpers.
+ * Team members can file conversations into a team folder; its creator and team owners/admins manage it.
+ */
+export class FolderService {
+  /**
+   * Personal folders plus the folders of every team the user belongs to
+   */
+  async getFolders(userId: string): Promise<Array<ConversationFolder & { conversation_count: number }>> {
+    const teamIds = await this.getTeamIds(userId);
+    const rows = await prisma.conversationFolder.findMany({
+      where: {
+        OR: [
+          { user_id: userId, team_id: null },
+          ...(teamIds.length > 0 ? [{ team_id: { in: teamIds } }] : [])
+        ]
+      },
+      orderBy: [{ position: 'asc' }, { name: 'asc' }],
+      include: { _count: { select: { conversations: { where: { deleted_at: null } } } } }
+    });
+
+    return rows.map(({ _count, ...folder }) => ({
+      ...(folder as unknown as ConversationFolder),
+      conversation_count: _count.conversations
+    }));
+  }
+
+  async getFolder(id: string): Promise<ConversationFolder | null> {
+    const row = await prisma.conversationFolder.findUnique({ where: { id } });
+    return row as unknown as ConversationFolder | null;
+  }
+
+  async createFolder(userId: string, data: { name: string; color?: string | null; team_id?: string | null; position?: number }): Promise<ConversationFolder> {
+    const created = await prisma.conversationFolder.create({
+      data: {
+        user_id: userId,
+        team_id: data.team_id || null,
+        name: data.name,
+        color: data.color ?? null,
+        position: data.position ?? 0
+      }
+    });
+    console.log(`📁 [FolderService] Created ${created.team_id ? `team ${created.team_id} ` : ''}folder ${created.id} for user ${userId}`);
+    return created as unknown as ConversationFolder;
+  }
+
+  async updateFolder(id: string, data: { name?: string; color?: string | null; position?: number }): Promise<ConversationFolder> {
+    const updated = await prisma.conversationFolder.update({
+      where: { id },
+      data: {
+        ...(data.name !== undefined ? { name: data.name } : {}),
+        ...(data.color !== undefined ? { color: data.color } : {}),
+        ...(data.position !== undefined ? { position: data.position } : {})
+      }
+    });
+    return updated as unknown as ConversationFolder;
+  }
+
+  /**
+   * Delete a folder; its conversations become unfiled
+   */
+  async deleteFolder(id: string): Promise<void> {
+    await prisma.conversationFolder.delete({ where: { id } });
+    console.log(`📁 [FolderService] Deleted folder ${id}`);
+  }
+
+  /**
+   * read: may list and file conversations into the folder; manage: may rename or delete it
+   */
+  async getAccess(folder: ConversationFolder, userId: string): Promise<FolderAccess> {
+    if (!folder.team_id) {
+      return folder.user_id === userId ? 'manage' : 'none';
+    }
+    const membership = await prisma.teamMember.findFirst({
+      where: { team_id: folder.team_id, user_id: userId, is_active: true },
+      select: { role: true }
+    });
+    if (!membership) return 'none';
+    return folder.user_id === userId || membership.role === 'owner' || membership.role === 'admin' ? 'manage' : 'read';
+  }
+
+  /**
+   * Read access to another member's conversation filed in a team folder the user belongs to
+   */
+  async canReadConversation(conversation: Pick<Conversation, 'user_id' | 'folder_id'>, userId: string): Promise<boolean> {
+    if (conversation.user_id === userId) return true;
+    if (!conversation.folder_id) return false;
+    const folder = await this.getFolder(conversation.folder_id);
+    return !!folder?.team_id && (await this.getAccess(folder, userId)) !== 'none';
+  }
+
+  async isTeamMember(teamId: string, userId: string): Promise<boolean> {
+    const membership = await prisma.teamMember.findFirst({
+      where: { team_id: teamId, user_id: userId, is_active: true },
+      select: { id: true }
+    });
+    return !!membership;
+  }
+
+  /**
+   * Move a conversation into a folder (null = unfiled)
+   */
+  async setConversationFolder(conversationId: string, folderId: string | null): Promise<void> {
+    await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { folder_id: folderId }
+    });
+  }
+
+  /**
+   * Replace a conversation's tags (normalized)
+   */
+  async setConversationTags(conversationId: string, tags: string[]): Promise<string[]> {
+    const updated = await prisma.conversation.update({
+      where: { id: conversationId },
+      data: { tags },
+      select: { tags: true }
+    });
+    return updated.tags;
+  }
+
+  /**
+   * Tags used across the user's conversations (trash excluded), most used first
+   */
+  async getUserTags(userId: string): Promise<Array<{ tag: string; count: number }>> {
+    const rows = await prisma.conversation.findMany({
+      where: { user_id: userId, deleted_at: null, NOT: { tags: { isEmpty: true } } },
+      select: { tags: true }
+    });
+    const counts = new Map<string, number>();
+    rows.forEach(row => row.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+    return Array.from(counts.entries())
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  /**
+   * Validate folder fields from a request body. `partial` allows omitting the name (updates).
+   */
+  parseFolderInput(raw: any, partial: boolean = false): { data: { name?: string; color?: string | null; position?: number; team_id?: string | null }; errors: string[] } {
+    const errors: string[] = [];
+    const data: { name?: string; color?: string | null; position?: number; team_id?: string | null } = {};
+    const body = raw && typeof raw === 'object' ? raw : {};
+
+    if (body.name !== undefined || !partial) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        errors.push('name is required');
+      } else if (name.length > MAX_FOLDER_NAME_LENGTH) {
+        errors.push(`name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`);
+      } else {
+        data.name = name;
+      }
+    }
+    if (body.color !== undefined) {
+      if (body.color !== null && (typeof body.color !== 'string' || !/^#[0-9a-fA-F]{6}$/.test(body.color))) {
+        errors.push('color must be a hex color like #1e88e5 or null');
+      } else {
+        data.color = body.color;
+      }
+    }
+    if (body.position !== undefined) {
+      if (!Number.isInteger(body.position)) {
+        errors.push('position must be an integer');
+      } else {
+        data.position = body.position;
+      }
+    }
+    if (body.team_id !== undefined && !partial) {
+      if (body.team_id !== null && typeof body.team_id !== 'string') {
+        errors.push('team_id must be a string or null');
+      } else {
+        data.team_id = body.team_id;
+      }
+    }
+    return { data, errors };
+  }
+
+  /**
+   * Normalize tags: trimmed, lowercase, deduplicated, bounded in length and count
+   */
+  normalizeTags(raw: unknown): { tags: string[]; errors: string[] } {
+    if (!Array.isArray(raw)) return { tags: [], errors: ['tags must be an array of strings'] };
+    const errors: string[] = [];
+    const tags: string[] = [];
+    raw.forEach((item, index) => {
+      if (typeof item !== 'string') {
+        errors.push(`tags[${index}] must be a string`);
+        return;
+      }
+      const tag = item.trim().toLowerCase().replace(/\s+/g, ' ');
+      if (!tag) return;
+      if (tag.length > MAX_TAG_LENGTH) {
+        errors.push(`tags[${index}] must be at most ${MAX_TAG_LENGTH} characters`);
+        return;
+      }
+      if (!tags.includes(tag)) tags.push(tag);
+    });
+    if (tags.length > MAX_TAGS_PER_CONVERSATION) {
+      errors.push(`At most ${MAX_TAGS_PER_CONVERSATION} tags per conversation`);
+    }
+    return { tags, errors };
+  }
+
+  /**
+   * Folder/tag filters from query params (?folder_id=<id>|none, ?tags=a,b or repeated ?tag=).
+   * Checks folder access; a team folder lists what every member filed in it.
+   */
+  async resolveFilters(userId: string, query: Record<string, any>): Promise<{ filters: ConversationFilters; error?: { status: number; message: string } }> {
+    const filters: ConversationFilters = {};
+
+    const rawTags = [query.tags, query.tag]
+      .flat()
+      .filter((value): value is string => typeof value === 'string')
+      .flatMap(value => value.split(','));
+    if (rawTags.length > 0) {
+      filters.tags = this.normalizeTags(rawTags).tags;
+    }
+
+    if (typeof query.folder_id === 'string' && query.folder_id) {
+      if (query.folder_id === 'none') {
+        filters.folderId = null;
+      } else {
+        const folder = await this.getFolder(query.folder_id);
+        if (!folder) {
+          return { filters, error: { status: 404, message: 'Folder not found' } };
+        }
+        if ((await this.getAccess(folder, userId)) === 'none') {
+          return { filters, error: { status: 403, message: 'Forbidden' } };
+        }
+        filters.folderId = folder.id;
+        if (folder.team_id) filters.sharedFolder = true;
+      }
+    }
+
+    return { filters };
+  }
+
+  private async getTeamIds(userId: string): Promise<string[]> {
+    const memberships = await prisma.teamMember.findMany({
+      where: { user_id: userId, is_active: true },
+      select: { team_id: true }
+    });
+    return memberships.map(membership => membership.team_id);
+  }
+}
+
+// Export singleton instance
+export const folderService = new FolderService();
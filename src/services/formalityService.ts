@@ -0,0 +1,122 @@
+import { personaService } from './personaService';
+import { termPattern } from './lexiconService';
+import { Formality } from '../types';
+
+export const FORMALITY_MODES: Formality[] = ['tu', 'usted', 'vos', 'mixed'];
+
+// Appended to the persona prompt; replaces the pronoun rule hard-coded in persona.prompt_text
+const PROMPT_DIRECTIVES: Record<Formality, string> = {
+  tu: [
+    '## Trato: tú',
+    'Address the user with informal «tú» (tú quieres, ¿qué opinas?, te cuento). Never use «usted» or voseo.',
+    'This replaces any pronoun rule in the persona description above.'
+  ].join('\n'),
+  usted: [
+    '## Trato: usted',
+    'Address the user with formal «usted» (usted quiere, ¿qué opina usted?, le cuento, su casa). Never use «tú», «te», «tu» or voseo.',
+    'Keep your regional vocabulary, but drop slang that would sound disrespectful with usted.',
+    'This replaces any pronoun rule in the persona description above.'
+  ].join('\n'),
+  vos: [
+    '## Trato: vos',
+    'Address the user with regional voseo (vos querés, ¿qué opinás vos?, contame, sos). Never use «tú» verb forms or «usted».',
+    'This replaces any pronoun rule in the persona description above.'
+  ].join('\n'),
+  mixed: [
+    '## Trato: mixto (enseñar la diferencia)',
+    'The user is learning when to use tú, usted and vos. Answer in your usual form, and in every reply show at least one sentence again in another form',
+    '(e.g. ¿Qué quieres? / ¿Qué quiere usted? / ¿Qué querés vos?) with a short note on when each is used in your country.'
+  ].join('\n')
+};
+
+// Used when the persona's lexicon has no follow-ups for the register
+const FOLLOW_UPS: Record<Formality, string[]> = {
+  tu: [" ¿Qué más quieres saber?", " ¿Te cuento más al respecto?", " ¿Qué opinas tú?", " ¿Quieres que te explique mejor?", " ¿Hay algo más que te interese?"],
+  usted: [" ¿Qué más quiere saber?", " ¿Le cuento más al respecto?", " ¿Qué opina usted?", " ¿Quiere que se lo explique mejor?", " ¿Hay algo más que le interese?"],
+  vos: [" ¿Qué más querés saber?", " ¿Te cuento más al respecto?", " ¿Qué opinás vos?", " ¿Querés que te explique mejor?", " ¿Hay algo más que te interese?"],
+  mixed: [
+    " ¿Qué opinas tú? (Con usted: ¿Qué opina usted? · Con vos: ¿Qué opinás vos?)",
+    " ¿Quieres saber más? (Con usted: ¿Quiere saber más? · Con vos: ¿Querés saber más?)",
+    " ¿Tienes alguna duda? (Con usted: ¿Tiene alguna duda? · Con vos: ¿Tenés alguna duda?)"
+  ]
+};
+
+// Unambiguous markers of each register (subject pronouns and common second-person verb forms)
+const TU_VERB_PATTERN = termPattern(['tú', 'quieres', 'tienes', 'puedes', 'sabes', 'opinas', 'piensas', 'eres']);
+const TU_OBJECT_PATTERN = termPattern(['te', 'ti', 'tu', 'tus', 'contigo']); // shared with voseo, wrong with usted
+const VOS_PATTERN = termPattern(['vos', 'sos', 'querés', 'tenés', 'podés', 'sabés', 'opinás', 'pensás', 'contame', 'decime', 'mirá', 'fijate']);
+const USTED_PATTERN = termPattern(['usted']);
+
+/**
+ * Formality (pronoun register) of a conversation: the prompt directive, the follow-up phrases
+ * added to replies and the pronoun checks run by the response validator.
+ */
+export class FormalityService {
+  isFormality(value: unknown): value is Formality {
+    return typeof value === 'string' && (FORMALITY_MODES as string[]).includes(value);
+  }
+
+  /**
+   * Validate formality from a request body: one of the modes ('tú' is accepted for 'tu') or null to use the persona default
+   */
+  normalize(raw: unknown): { formality: Formality | null; error?: string } {
+    if (raw === null) return { formality: null };
+    const value = typeof raw === 'string' ? raw.trim().toLowerCase().replace('ú', 'u') : raw;
+    if (!this.isFormality(value)) {
+      return { formality: null, error: `formality must be one of ${FORMALITY_MODES.join(', ')} or null` };
+    }
+    return { formality: value };
+  }
+
+  /**
+   * The register in effect: the conversation's choice, else the pronoun in the persona's lexicon, else tú
+   */
+  resolve(formality: Formality | null | undefined, countryKey?: string | null): Formality {
+    if (formality && this.isFormality(formality)) return formality;
+    const pronoun = countryKey ? personaService.getLexicon(countryKey)?.pronoun : undefined;
+    return this.isFormality(pronoun) ? pronoun : 'tu';
+  }
+
+  getPromptDirective(formality: Formality): string {
+    return PROMPT_DIRECTIVES[formality];
+  }
+
+  getFollowUps(formality: Formality, countryKey?: string | null): string[] {
+    return (countryKey && personaService.getLexicon(countryKey)?.follow_ups[formality]) || FOLLOW_UPS[formality];
+  }
+
+  /**
+   * Issues for a reply that addresses the user in the wrong register; empty when it fits
+   */
+  checkResponse(response: string, formality: Formality): string[] {
+    const issues: string[] = [];
+    const usesTu = TU_VERB_PATTERN.test(response);
+    const usesTuObject = TU_OBJECT_PATTERN.test(response);
+    const usesVos = VOS_PATTERN.test(response);
+    const usesUsted = USTED_PATTERN.test(response);
+
+    switch (formality) {
+      case 'tu':
+        if (usesUsted) issues.push('Uses usted in a tú conversation');
+        if (usesVos) issues.push('Uses voseo in a tú conversation');
+        break;
+      case 'usted':
+        if (usesTu || usesTuObject) issues.push('Uses tú forms in an usted conversation');
+        if (usesVos) issues.push('Uses voseo in an usted conversation');
+        break;
+      case 'vos':
+        if (usesTu) issues.push('Uses tú verb forms in a vos conversation');
+        if (usesUsted) issues.push('Uses usted in a vos conversation');
+        break;
+      case 'mixed':
+        if ([usesTu, usesUsted, usesVos].filter(Boolean).length < 2) {
+          issues.push('Does not contrast tú, usted and vos');
+        }
+        break;
+    }
+    return issues;
+  }
+}
+
+// Export singleton instance
+export const formalityService = new FormalityService();
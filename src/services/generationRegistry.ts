@@ -0,0 +1,89 @@
+import { ILLMAdapter } from './llmAdapter';
+
+export interface ActiveGeneration {
+  requestId: string;          // client message_id, also the adapter request id
+  assistantMessageId: string; // id used on assistant_delta events
+  groupId?: string;           // compare mode: the client message_id shared by every candidate
+  conversationId?: string;
+  userId?: string;
+  socketId?: string;
+  adapter: ILLMAdapter;
+  content: string;            // streamed so far
+  cancelled: boolean;
+  startedAt: number;
+}
+
+/**
+ * Tracks in-flight LLM generations so they can be cancelled from the socket or REST API.
+ * Cancelling aborts the adapter request; the generating handler notices `cancelled`,
+ * persists the partial content and emits `generation_cancelled`.
+ */
+export class GenerationRegistry {
+  private generations: Map<string, ActiveGeneration> = new Map();
+
+  /**
+   * Register a generation; a request id that is still generating is rejected (message_id reused by a client)
+   */
+  start(generation: Omit<ActiveGeneration, 'content' | 'cancelled' | 'startedAt'>): ActiveGeneration {
+    if (this.generations.has(generation.requestId)) {
+      throw new Error(`Generation ${generation.requestId} is already in progress`);
+    }
+    const active: ActiveGeneration = { ...generation, content: '', cancelled: false, startedAt: Date.now() };
+    this.generations.set(generation.requestId, active);
+    return active;
+  }
+
+  /**
+   * Look up a generation by the client message_id, the assistant message id or the compare group id
+   */
+  get(messageId: string): ActiveGeneration | undefined {
+    const direct = this.generations.get(messageId);
+    if (direct) return direct;
+    for (const generation of this.generations.values()) {
+      if (generation.assistantMessageId === messageId) return generation;
+    }
+    for (const generation of this.generations.values()) {
+      if (generation.groupId === messageId) return generation;
+    }
+    return undefined;
+  }
+
+  /**
+   * Cancel a generation (a compare group id cancels every candidate).
+   * Returns the generation when it was found and not already cancelled.
+   */
+  async cancel(messageId: string): Promise<ActiveGeneration | undefined> {
+    const generation = this.get(messageId);
+    if (!generation || generation.cancelled) return undefined;
+
+    if (generation.groupId === messageId) {
+      const group = Array.from(this.generations.values()).filter(active => active.groupId === messageId && !active.cancelled);
+      await Promise.all(group.map(active => this.cancelGeneration(active)));
+      return generation;
+    }
+    await this.cancelGeneration(generation);
+    return generation;
+  }
+
+  /**
+   * Remove a finished generation; leaves the entry alone if it belongs to another generation
+   */
+  finish(generation: ActiveGeneration): void {
+    if (this.generations.get(generation.requestId) === generation) {
+      this.generations.delete(generation.requestId);
+    }
+  }
+
+  private async cancelGeneration(generation: ActiveGeneration): Promise<void> {
+    generation.cancelled = true;
+    console.log(`🛑 [GenerationRegistry] Cancelling generation ${generation.requestId} after ${Date.now() - generation.startedAt}ms (${generation.content.length} chars streamed)`);
+    try {
+      await generation.adapter.cancel(generation.requestId);
+    } catch (error) {
+      console.warn(`⚠️ [GenerationRegistry] Adapter cancel failed for ${generation.requestId}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const generationRegistry = new GenerationRegistry();
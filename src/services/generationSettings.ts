@@ -0,0 +1,73 @@
+import { z } from 'zod';
+import { GenerationSettings, LLMOptions } from '../types';
+
+export const GenerationSettingsSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  max_tokens: z.number().int().min(1).max(32000).optional(),
+  top_p: z.number().gt(0).max(1).optional(),
+  stop: z.array(z.string().min(1)).max(4).optional(),
+  seed: z.number().int().optional(),
+  frequency_penalty: z.number().min(-2).max(2).optional(),
+  presence_penalty: z.number().min(-2).max(2).optional(),
+  timeout_ms: z.number().int().min(1000).max(300000).optional(),
+}).strict();
+
+/**
+ * Validate user-supplied generation settings (null clears them)
+ */
+export function parseGenerationSettings(
+  input: unknown
+): { success: true; settings: GenerationSettings | null } | { success: false; errors: string[] } {
+  if (input === null) return { success: true, settings: null };
+  const result = GenerationSettingsSchema.safeParse(input);
+  if (!result.success) {
+    return {
+      success: false,
+      errors: result.error.issues.map(issue => `${issue.path.join('.') || 'generation_settings'}: ${issue.message}`)
+    };
+  }
+  return { success: true, settings: result.data };
+}
+
+/**
+ * Merge settings layers, later layers win (e.g. persona defaults, then conversation overrides).
+ * Stored JSON is re-validated so a bad row cannot reach the provider.
+ */
+export function mergeGenerationSettings(...layers: Array<unknown>): GenerationSettings {
+  const merged: GenerationSettings = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    const parsed = GenerationSettingsSchema.safeParse(layer);
+    if (!parsed.success) {
+      console.warn('⚠️ [GenerationSettings] Ignoring invalid settings layer:', parsed.error.issues.map(i => i.message).join('; '));
+      continue;
+    }
+    for (const [key, value] of Object.entries(parsed.data)) {
+      if (value !== undefined) (merged as any)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Apply stored settings onto adapter options. Explicit options win, except timeout_ms,
+ * which replaces the caller's default timeout.
+ */
+export function applyGenerationSettings(options: LLMOptions, settings: GenerationSettings): LLMOptions {
+  return {
+    temperature: settings.temperature,
+    maxTokens: settings.max_tokens,
+    topP: settings.top_p,
+    stop: settings.stop,
+    seed: settings.seed,
+    frequencyPenalty: settings.frequency_penalty,
+    presencePenalty: settings.presence_penalty,
+    ...stripUndefined(options),
+    model: options.model,
+    timeout: settings.timeout_ms ?? options.timeout,
+  };
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
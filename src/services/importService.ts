@@ -0,0 +1,447 @@
+import { randomUUID } from 'crypto';
+import { conversationService } from './conversationService';
+import { ConversationMessage } from '../models/conversation';
+
+/**
+ * backup:  LocalStorageManager.exportConversations() ({ version, exportDate, conversations }) or a bare conversation array
+ * chatgpt: ChatGPT data export conversations.json (message tree in `mapping`)
+ * jsonl:   one JSON object per line: a message ({ conversation_id, id, role, content, ... }) or a conversation ({ messages: [...] })
+ */
+export type ImportFormat = 'backup' | 'chatgpt' | 'jsonl';
+
+export const IMPORT_FORMATS: ImportFormat[] = ['backup', 'chatgpt', 'jsonl'];
+
+export interface ImportSkip {
+  conversation?: string; // source conversation id or title
+  message_id?: string;
+  line?: number;         // jsonl line number (1-based)
+  reason: string;
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  conversations: { created: number; merged: number; skipped: number };
+  messages: { imported: number; duplicates: number; skipped: number };
+  conversation_ids: string[]; // created or merged, in input order
+  skipped: ImportSkip[];
+  skipped_truncated: boolean; // more skips than MAX_REPORTED_SKIPS
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+interface ParsedMessage {
+  id?: string;
+  role: 'user' | 'assistant';
+  content: string;
+  model?: string;
+  tokens_used?: number;
+  created_at?: Date;
+}
+
+interface ParsedConversation {
+  source_id?: string;
+  title?: string;
+  model?: string;
+  persona_id?: string;
+  created_at?: Date;
+  messages: ParsedMessage[];
+}
+
+const IMPORT_MAX_CONVERSATIONS = parseInt(process.env.IMPORT_MAX_CONVERSATIONS || '1000');
+const MAX_REPORTED_SKIPS = 200;
+const MAX_TITLE_LENGTH = 200;
+const IMPORTED_MODEL = 'imported';
+
+/**
+ * Imports conversations exported by LocalStorageManager or other chat tools.
+ * Every format is mapped to plain user/assistant threads on the main branch; message ids
+ * already stored for the user are skipped, so re-running an import only adds what is new.
+ */
+export class ImportService {
+  async importConversations(userId: string, payload: unknown, format?: ImportFormat): Promise<ImportReport> {
+    const detected = format ?? this.detectFormat(payload);
+    if (!detected) {
+      throw new ImportError(`Unrecognized import format; pass format=${IMPORT_FORMATS.join('|')}`);
+    }
+
+    const report: ImportReport = {
+      format: detected,
+      conversations: { created: 0, merged: 0, skipped: 0 },
+      messages: { imported: 0, duplicates: 0, skipped: 0 },
+      conversation_ids: [],
+      skipped: [],
+      skipped_truncated: false
+    };
+    const skip = (entry: ImportSkip) => {
+      if (report.skipped.length < MAX_REPORTED_SKIPS) {
+        report.skipped.push(entry);
+      } else {
+        report.skipped_truncated = true;
+      }
+    };
+
+    const parsed = detected === 'chatgpt' ? this.parseChatGPT(payload, skip, report)
+      : detected === 'jsonl' ? this.parseJsonl(payload, skip, report)
+      : this.parseBackup(payload, skip, report);
+
+    const startTime = Date.now();
+    const seenIds = new Set<string>();
+    for (let index = 0; index < parsed.length; index++) {
+      const conv = parsed[index];
+      const label = conv.source_id || conv.title || `#${index + 1}`;
+      if (index >= IMPORT_MAX_CONVERSATIONS) {
+        report.conversations.skipped++;
+        report.messages.skipped += conv.messages.length;
+        skip({ conversation: label, reason: `Import limit of ${IMPORT_MAX_CONVERSATIONS} conversations reached` });
+        continue;
+      }
+      if (conv.messages.length === 0) {
+        report.conversations.skipped++;
+        skip({ conversation: label, reason: 'No importable messages' });
+        continue;
+      }
+
+      try {
+        await this.storeConversation(userId, conv, label, seenIds, report, skip);
+      } catch (error: any) {
+        console.warn(`⚠️ [ImportService] Failed to store conversation ${label} for user ${userId}:`, error?.message || error);
+        report.conversations.skipped++;
+        report.messages.skipped += conv.messages.length;
+        skip({ conversation: label, reason: 'Could not be stored' });
+      }
+    }
+
+    console.log(`📥 [ImportService] ${detected} import for user ${userId}: ${report.conversations.created} created, ${report.conversations.merged} merged, ${report.messages.imported} messages, ${report.messages.duplicates} duplicates, ${report.messages.skipped} skipped in ${Date.now() - startTime}ms`);
+    return report;
+  }
+
+  /**
+   * Guess the format from the payload shape (strings that are not a single JSON document are JSONL)
+   */
+  detectFormat(payload: unknown): ImportFormat | null {
+    if (typeof payload === 'string') {
+      const value = this.tryParseJson(payload);
+      return value === undefined ? (payload.trim() ? 'jsonl' : null) : this.detectFormat(value);
+    }
+    if (Array.isArray(payload)) {
+      const first = payload.find(item => item && typeof item === 'object');
+      if (!first) return null;
+      if ('mapping' in first) return 'chatgpt';
+      if (Array.isArray((first as any).messages)) return 'backup';
+      if ('role' in first) return 'jsonl';
+      return null;
+    }
+    if (payload && typeof payload === 'object') {
+      if (Array.isArray((payload as any).conversations)) return 'backup';
+      if ('mapping' in payload) return 'chatgpt';
+      if (Array.isArray((payload as any).messages)) return 'backup';
+    }
+    return null;
+  }
+
+  private async storeConversation(
+    userId: string,
+    conv: ParsedConversation,
+    label: string,
+    seenIds: Set<string>,
+    report: ImportReport,
+    skip: (entry: ImportSkip) => void
+  ): Promise<void> {
+    // Re-importing the same export merges into the conversation created last time
+    const existing = conv.source_id ? await conversationService.getConversation(conv.source_id) : null;
+    const target = existing && existing.user_id === userId ? existing : null;
+
+    const ids = conv.messages.map(msg => msg.id).filter((id): id is string => !!id);
+    const owners = await conversationService.getMessageOwners(ids);
+
+    const toStore: Array<Pick<ConversationMessage, 'id' | 'role' | 'content' | 'model' | 'tokens_used' | 'created_at'>> = [];
+    let previousAt = target ? new Date(target.updated_at).getTime() : 0;
+    const baseAt = conv.created_at?.getTime() ?? Date.now();
+    conv.messages.forEach((msg, index) => {
+      if (msg.id && (seenIds.has(msg.id) || owners.get(msg.id) === userId)) {
+        report.messages.duplicates++;
+        skip({ conversation: label, message_id: msg.id, reason: 'Duplicate message id' });
+        return;
+      }
+      // Ids held by another user's message cannot be reused
+      const id = msg.id && !owners.has(msg.id) ? msg.id : randomUUID();
+      seenIds.add(id);
+      if (msg.id) seenIds.add(msg.id);
+
+      // Threads are ordered by created_at: keep timestamps strictly increasing
+      const at = Math.max(msg.created_at?.getTime() ?? (previousAt || baseAt + index), previousAt + 1);
+      previousAt = at;
+      toStore.push({
+        id,
+        role: msg.role,
+        content: msg.content,
+        model: msg.model || conv.model || IMPORTED_MODEL,
+        tokens_used: msg.tokens_used,
+        created_at: new Date(at)
+      });
+    });
+
+    if (toStore.length === 0) {
+      report.conversations.skipped++;
+      skip({ conversation: label, reason: 'Every message was already imported' });
+      return;
+    }
+
+    let conversationId: string;
+    if (target) {
+      conversationId = target.id;
+      report.conversations.merged++;
+    } else {
+      const created = await conversationService.createConversation({
+        // Keep the source id unless another user already has it
+        id: conv.source_id && !existing ? conv.source_id : undefined,
+        user_id: userId,
+        title: conv.title || 'Imported conversation',
+        model: conv.model || toStore.find(msg => msg.role === 'assistant')?.model,
+        persona_id: conv.persona_id,
+        created_at: conv.created_at && conv.created_at < toStore[0].created_at ? conv.created_at : toStore[0].created_at
+      });
+      conversationId = created.id;
+      report.conversations.created++;
+    }
+
+    report.messages.imported += await conversationService.importMessages(conversationId, toStore);
+    if (!target && conv.title) {
+      // The source title is kept as a generated one: refreshed only if the topic later drifts
+      const count = await conversationService.getMessageCount(conversationId);
+      await conversationService.updateGeneratedTitle(conversationId, conv.title, count);
+    }
+    report.conversation_ids.push(conversationId);
+  }
+
+  private parseBackup(payload: unknown, skip: (entry: ImportSkip) => void, report: ImportReport): ParsedConversation[] {
+    const value = typeof payload === 'string' ? this.tryParseJson(payload) : payload;
+    const list = Array.isArray(value) ? value : (value as any)?.conversations;
+    if (!Array.isArray(list)) {
+      throw new ImportError('Backup must contain a conversations array');
+    }
+    return list.map((raw: any, index: number) => this.parseConversationObject(raw, `#${index + 1}`, skip, report));
+  }
+
+  private parseChatGPT(payload: unknown, skip: (entry: ImportSkip) => void, report: ImportReport): ParsedConversation[] {
+    const value = typeof payload === 'string' ? this.tryParseJson(payload) : payload;
+    const list = Array.isArray(value) ? value : value && typeof value === 'object' ? [value] : null;
+    if (!list) {
+      throw new ImportError('ChatGPT export must be the conversations.json array');
+    }
+
+    return list.map((raw: any, index: number) => {
+      const label = raw?.id || raw?.conversation_id || raw?.title || `#${index + 1}`;
+      const mapping: Record<string, any> = raw?.mapping && typeof raw.mapping === 'object' ? raw.mapping : {};
+      const conv: ParsedConversation = {
+        source_id: this.asString(raw?.id ?? raw?.conversation_id),
+        title: this.cleanTitle(raw?.title),
+        model: this.asString(raw?.default_model_slug),
+        created_at: this.parseTimestamp(raw?.create_time),
+        messages: []
+      };
+
+      // The visible thread: from current_node up to the root (other branches are edits/regenerations)
+      let nodeId: string | undefined = raw?.current_node;
+      if (!nodeId || !mapping[nodeId]) {
+        const leaves = Object.values(mapping).filter((node: any) => !node?.children?.length);
+        nodeId = (leaves.sort((a: any, b: any) => (a?.message?.create_time ?? 0) - (b?.message?.create_time ?? 0)).pop() as any)?.id;
+      }
+      const thread: any[] = [];
+      const visited = new Set<string>();
+      while (nodeId && mapping[nodeId] && !visited.has(nodeId)) {
+        visited.add(nodeId);
+        thread.unshift(mapping[nodeId]);
+        nodeId = mapping[nodeId].parent;
+      }
+
+      thread.forEach(node => {
+        const message = node?.message;
+        if (!message) return; // structural root node
+        const id = this.asString(message.id ?? node.id);
+        const role = this.mapRole(message.author?.role);
+        if (!role) {
+          // Hidden system turns are ChatGPT scaffolding; tool turns have no equivalent here
+          if (message.author?.role !== 'system') {
+            report.messages.skipped++;
+            skip({ conversation: label, message_id: id, reason: `Unsupported role: ${message.author?.role ?? 'missing'}` });
+          }
+          return;
+        }
+        const content = this.extractText(message.content);
+        if (!content) {
+          report.messages.skipped++;
+          skip({ conversation: label, message_id: id, reason: 'No text content' });
+          return;
+        }
+        conv.messages.push({
+          id,
+          role,
+          content,
+          model: this.asString(message.metadata?.model_slug),
+          created_at: this.parseTimestamp(message.create_time)
+        });
+      });
+      return conv;
+    });
+  }
+
+  private parseJsonl(payload: unknown, skip: (entry: ImportSkip) => void, report: ImportReport): ParsedConversation[] {
+    let records: Array<{ line: number; value: any }>;
+    if (typeof payload === 'string') {
+      records = [];
+      payload.split(/\r?\n/).forEach((text, index) => {
+        if (!text.trim()) return;
+        const value = this.tryParseJson(text);
+        if (value === undefined || !value || typeof value !== 'object') {
+          report.messages.skipped++;
+          skip({ line: index + 1, reason: 'Invalid JSON' });
+          return;
+        }
+        records.push({ line: index + 1, value });
+      });
+    } else if (Array.isArray(payload)) {
+      records = payload.map((value, index) => ({ line: index + 1, value }));
+    } else {
+      throw new ImportError('JSONL import must be newline-delimited JSON text');
+    }
+
+    // Message lines are grouped by conversation id, keeping first-seen order
+    const conversations: ParsedConversation[] = [];
+    const byKey = new Map<string, ParsedConversation>();
+    records.forEach(({ line, value }) => {
+      if (Array.isArray(value.messages)) {
+        conversations.push(this.parseConversationObject(value, `line ${line}`, skip, report));
+        return;
+      }
+
+      const key = this.asString(value.conversation_id ?? value.conversationId ?? value.thread_id) || 'default';
+      let conv = byKey.get(key);
+      if (!conv) {
+        conv = {
+          source_id: key === 'default' ? undefined : key,
+          title: this.cleanTitle(value.conversation_title ?? value.title),
+          messages: []
+        };
+        byKey.set(key, conv);
+        conversations.push(conv);
+      }
+      const message = this.parseMessageObject(value, skip, report, conv.source_id || key, line);
+      if (message) conv.messages.push(message);
+    });
+    return conversations;
+  }
+
+  /**
+   * A conversation object with a messages array (LocalConversation and look-alikes)
+   */
+  private parseConversationObject(raw: any, fallbackLabel: string, skip: (entry: ImportSkip) => void, report: ImportReport): ParsedConversation {
+    const label = this.asString(raw?.id) || this.asString(raw?.title) || fallbackLabel;
+    const messages: any[] = Array.isArray(raw?.messages) ? raw.messages : [];
+    return {
+      source_id: this.asString(raw?.id),
+      title: this.cleanTitle(raw?.title),
+      model: this.asString(raw?.model),
+      persona_id: this.asString(raw?.persona_id),
+      created_at: this.parseTimestamp(raw?.created_at ?? raw?.createdAt),
+      messages: messages
+        .map(message => this.parseMessageObject(message, skip, report, label))
+        .filter((message): message is ParsedMessage => !!message)
+    };
+  }
+
+  private parseMessageObject(raw: any, skip: (entry: ImportSkip) => void, report: ImportReport, label: string, line?: number): ParsedMessage | null {
+    const id = this.asString(raw?.id ?? raw?.message_id);
+    const roleValue = raw?.role ?? raw?.author?.role ?? raw?.sender;
+    const role = this.mapRole(roleValue);
+    if (!role) {
+      report.messages.skipped++;
+      skip({ conversation: label, message_id: id, line, reason: `Unsupported role: ${roleValue ?? 'missing'}` });
+      return null;
+    }
+    const content = this.extractText(raw?.content ?? raw?.text);
+    if (!content) {
+      report.messages.skipped++;
+      skip({ conversation: label, message_id: id, line, reason: 'No text content' });
+      return null;
+    }
+    const tokens = Number(raw?.tokens_used);
+    return {
+      id,
+      role,
+      content,
+      model: this.asString(raw?.model),
+      tokens_used: Number.isFinite(tokens) && tokens >= 0 ? Math.round(tokens) : undefined,
+      created_at: this.parseTimestamp(raw?.created_at ?? raw?.createdAt ?? raw?.timestamp ?? raw?.create_time)
+    };
+  }
+
+  private mapRole(raw: unknown): 'user' | 'assistant' | null {
+    const role = typeof raw === 'string' ? raw.trim().toLowerCase() : '';
+    if (role === 'user' || role === 'human') return 'user';
+    if (role === 'assistant' || role === 'ai' || role === 'bot' || role === 'model') return 'assistant';
+    return null;
+  }
+
+  /**
+   * Text of a message: a string, ChatGPT { parts }, or a content-part array (non-text parts dropped)
+   */
+  private extractText(content: unknown): string {
+    if (typeof content === 'string') return content.trim();
+    if (Array.isArray(content)) {
+      return content
+        .map(part => (typeof part === 'string' ? part : part?.type === undefined || part?.type === 'text' ? this.asString(part?.text) || '' : ''))
+        .filter(Boolean)
+        .join('\n')
+        .trim();
+    }
+    if (content && typeof content === 'object') {
+      const value = content as any;
+      if (Array.isArray(value.parts)) return this.extractText(value.parts);
+      if (typeof value.text === 'string') return value.text.trim();
+    }
+    return '';
+  }
+
+  /**
+   * ISO strings, epoch seconds (ChatGPT) or epoch milliseconds
+   */
+  private parseTimestamp(raw: unknown): Date | undefined {
+    let time: number;
+    if (typeof raw === 'number') {
+      time = raw < 1e12 ? raw * 1000 : raw;
+    } else if (typeof raw === 'string' && raw.trim()) {
+      time = /^\d+(\.\d+)?$/.test(raw.trim()) ? this.parseTimestamp(Number(raw))?.getTime() ?? NaN : Date.parse(raw);
+    } else {
+      return undefined;
+    }
+    return Number.isFinite(time) && time > 0 ? new Date(time) : undefined;
+  }
+
+  private cleanTitle(raw: unknown): string | undefined {
+    const title = typeof raw === 'string' ? raw.replace(/\s+/g, ' ').trim() : '';
+    return title ? title.slice(0, MAX_TITLE_LENGTH) : undefined;
+  }
+
+  private asString(value: unknown): string | undefined {
+    if (typeof value === 'string' && value.trim()) return value.trim();
+    if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+    return undefined;
+  }
+
+  private tryParseJson(text: string): any {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+// Export singleton instance
+export const importService = new ImportService();
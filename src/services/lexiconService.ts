@@ -0,0 +1,58 @@
+import { personaService } from './personaService';
+
+export interface LexiconCheck {
+  slang: string[];        // the persona's slang found in the reply
+  bannedTerms: string[];  // other regions' slang found in the reply
+  missingSlang: boolean;  // the persona has slang but the reply uses none (a style hint, not an issue)
+  issues: string[];
+}
+
+// \b only knows ASCII letters, so accented terms need Unicode-aware boundaries
+export function termPattern(terms: string[], flags: string = 'iu'): RegExp {
+  const escaped = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+'));
+  return new RegExp(`(?<!\\p{L})(${escaped.join('|')})(?!\\p{L})`, flags);
+}
+
+/**
+ * Checks replies against the persona's lexicon (personas/lexicons/*.json): regional slang it should
+ * use and other regions' slang it must not. Personas without a lexicon are not checked.
+ */
+export class LexiconService {
+  private patterns: Map<string, RegExp> = new Map();
+
+  checkResponse(response: string, countryKey: string): LexiconCheck {
+    const lexicon = personaService.getLexicon(countryKey);
+    if (!lexicon) {
+      return { slang: [], bannedTerms: [], missingSlang: false, issues: [] };
+    }
+
+    const slang = this.findTerms(response, lexicon.slang);
+    const bannedTerms = this.findTerms(response, lexicon.banned_terms);
+    const issues: string[] = [];
+    if (bannedTerms.length > 0) {
+      issues.push(`Uses slang from another region: ${bannedTerms.join(', ')}`);
+    }
+    return { slang, bannedTerms, missingSlang: lexicon.slang.length > 0 && slang.length === 0, issues };
+  }
+
+  /**
+   * Distinct terms found in the text, lowercased
+   */
+  findTerms(text: string, terms: string[]): string[] {
+    if (terms.length === 0) return [];
+    const key = terms.join('\u0000');
+    let pattern = this.patterns.get(key);
+    if (!pattern) {
+      pattern = termPattern(terms, 'giu');
+      this.patterns.set(key, pattern);
+    }
+    const found = new Set<string>();
+    for (const match of text.matchAll(pattern)) {
+      found.add(match[1].toLowerCase().replace(/\s+/g, ' '));
+    }
+    return Array.from(found);
+  }
+}
+
+// Export singleton instance
+export const lexiconService = new LexiconService();
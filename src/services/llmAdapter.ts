@@ -16,7 +16,8 @@ export interface ILLMAdapter {
    * Get completion from the LLM (non-streaming)
    * @param messages Array of messages to send to the LLM
    * @param options Configuration options
-   * @returns Promise resolving to the complete response
+   * @returns Promise resolving to the complete response ('' when the model answered nothing).
+   * Failed calls reject with an LLMError (see llmErrors.ts) instead of resolving.
    */
   fetchCompletion(
     messages: LLMMessage[],
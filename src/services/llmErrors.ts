@@ -0,0 +1,159 @@
+export type LLMErrorKind =
+  | 'rate_limited'
+  | 'auth'
+  | 'timeout'
+  | 'upstream'          // provider 5xx
+  | 'network'           // fetch failed before a response
+  | 'content_filtered'
+  | 'bad_request'       // other 4xx; retrying will not help
+  | 'cancelled'
+  | 'overloaded';       // shed by our own scheduler
+
+export interface LLMErrorDetails {
+  status?: number;
+  model?: string;
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+/**
+ * Typed failure of an upstream LLM call. `message` keeps the provider text for logs;
+ * `kind` is what callers branch on.
+ */
+export class LLMError extends Error {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  readonly model?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(kind: LLMErrorKind, message: string, details: LLMErrorDetails = {}) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = details.status;
+    this.model = details.model;
+    this.retryAfterMs = details.retryAfterMs;
+    if (details.cause !== undefined) (this as any).cause = details.cause;
+  }
+
+  /**
+   * Worth retrying the same request after a delay
+   */
+  get retryable(): boolean {
+    return this.kind === 'rate_limited' || this.kind === 'upstream' || this.kind === 'network';
+  }
+}
+
+export class LLMRateLimitError extends LLMError {
+  constructor(message: string, details: LLMErrorDetails = {}) {
+    super('rate_limited', message, details);
+    this.name = 'LLMRateLimitError';
+  }
+}
+
+export class LLMAuthError extends LLMError {
+  constructor(message: string, details: LLMErrorDetails = {}) {
+    super('auth', message, details);
+    this.name = 'LLMAuthError';
+  }
+}
+
+export class LLMTimeoutError extends LLMError {
+  constructor(message: string, details: LLMErrorDetails = {}) {
+    super('timeout', message, details);
+    this.name = 'LLMTimeoutError';
+  }
+}
+
+export class LLMUpstreamError extends LLMError {
+  constructor(message: string, details: LLMErrorDetails = {}) {
+    super(details.status ? 'upstream' : 'network', message, details);
+    this.name = 'LLMUpstreamError';
+  }
+}
+
+export class LLMContentFilteredError extends LLMError {
+  constructor(message: string, details: LLMErrorDetails = {}) {
+    super('content_filtered', message, details);
+    this.name = 'LLMContentFilteredError';
+  }
+}
+
+export class LLMBadRequestError extends LLMError {
+  constructor(message: string, details: LLMErrorDetails = {}) {
+    super('bad_request', message, details);
+    this.name = 'LLMBadRequestError';
+  }
+}
+
+export class LLMCancelledError extends LLMError {
+  constructor(requestId: string, details: LLMErrorDetails = {}) {
+    super('cancelled', `Request ${requestId} was cancelled`, details);
+    this.name = 'LLMCancelledError';
+  }
+}
+
+/**
+ * Thrown when the scheduler sheds a request instead of letting it wait.
+ * retryAfterMs is a hint for the client, not a reservation.
+ */
+export class LLMOverloadedError extends LLMError {
+  readonly reason: 'queue_full' | 'queue_timeout';
+
+  constructor(model: string, reason: 'queue_full' | 'queue_timeout', retryAfterMs: number) {
+    super(
+      'overloaded',
+      reason === 'queue_full'
+        ? `Model ${model} is at capacity, please retry shortly`
+        : `Timed out waiting for model ${model}, please retry shortly`,
+      { model, retryAfterMs }
+    );
+    this.name = 'LLMOverloadedError';
+    this.reason = reason;
+  }
+}
+
+/**
+ * Map a non-2xx provider response (or an in-body `error` object) to a typed error
+ */
+export function classifyHttpError(
+  status: number,
+  bodyText: string,
+  details: { model?: string; retryAfterHeader?: string | null; provider?: string } = {}
+): LLMError {
+  const provider = details.provider || 'OpenRouter';
+  const message = `${provider} API error: ${status} ${bodyText}`;
+  const base: LLMErrorDetails = { status, model: details.model };
+
+  // Moderation rejections come back as 403 (OpenRouter) or 400 with a content-filter code
+  if (/flagged|moderation|content[_ ]filter|content_policy/i.test(bodyText) && (status === 400 || status === 403)) {
+    return new LLMContentFilteredError(message, base);
+  }
+  if (status === 429) {
+    return new LLMRateLimitError(message, { ...base, retryAfterMs: parseRetryAfter(details.retryAfterHeader) });
+  }
+  if (status === 401 || status === 403 || status === 402) {
+    return new LLMAuthError(message, base);
+  }
+  if (status === 408) {
+    return new LLMTimeoutError(message, base);
+  }
+  if (status >= 500) {
+    return new LLMUpstreamError(message, { ...base, retryAfterMs: parseRetryAfter(details.retryAfterHeader) });
+  }
+  return new LLMBadRequestError(message, base);
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(header?: string | null): number | undefined {
+  if (!header) return undefined;
+  const trimmed = header.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return undefined;
+  return Math.max(0, date - Date.now());
+}
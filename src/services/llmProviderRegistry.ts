@@ -0,0 +1,145 @@
+import * as path from 'path';
+import { ILLMAdapter } from './llmAdapter';
+import { OpenRouterAdapter } from './openrouterAdapter';
+import { LocalLLMAdapter } from './localLLMAdapter';
+import { RecordReplayAdapter, CassetteMode } from './recordReplayAdapter';
+import { ScheduledAdapter, llmScheduler } from './llmScheduler';
+import { modelManager } from './modelService';
+import { AIModel } from '../models/conversation';
+
+export type LLMProvider = AIModel['provider'];
+
+type AdapterFactory = () => ILLMAdapter;
+
+export interface ResolvedLLMProvider {
+  provider: LLMProvider;
+  adapter: ILLMAdapter;
+  model: string; // Model id to send upstream
+}
+
+/**
+ * Resolves an ILLMAdapter for a selected model.
+ * - Catalog models are routed by AIModel.provider; unknown model ids (raw OpenRouter slugs) go to OpenRouter.
+ * - Hosted providers (openai/anthropic/google) share the OpenRouter gateway until they get dedicated adapters.
+ * - LLM_PROVIDER forces every request to one provider, e.g. LLM_PROVIDER=local to run fully offline.
+ * - Every adapter goes through the global llmScheduler (per-model concurrency caps and plan-priority queueing).
+ */
+export class LLMProviderRegistry {
+  private factories: Map<LLMProvider, AdapterFactory> = new Map();
+  private adapters: Map<LLMProvider, ILLMAdapter> = new Map();
+
+  constructor() {
+    this.registerDefaults();
+  }
+
+  private registerDefaults(): void {
+    this.register('openrouter', () => this.withScheduling(this.withCassettes('openrouter', new OpenRouterAdapter(
+      process.env.OPENROUTER_API_KEY || '',
+      process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1'
+    ))));
+    this.register('openai', () => this.getAdapter('openrouter'));
+    this.register('anthropic', () => this.getAdapter('openrouter'));
+    this.register('google', () => this.getAdapter('openrouter'));
+    this.register('local', () => this.withScheduling(this.withCassettes('local', new LocalLLMAdapter(
+      process.env.LOCAL_LLM_API_KEY || '',
+      process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1'
+    ))));
+  }
+
+  /**
+   * Route an adapter's upstream calls through the global scheduler
+   */
+  private withScheduling(adapter: ILLMAdapter): ILLMAdapter {
+    return new ScheduledAdapter(adapter, llmScheduler);
+  }
+
+  /**
+   * Wrap an adapter in a RecordReplayAdapter when LLM_CASSETTE_MODE is record/replay/auto
+   */
+  private withCassettes(provider: LLMProvider, adapter: ILLMAdapter): ILLMAdapter {
+    const mode = (process.env.LLM_CASSETTE_MODE || '').trim().toLowerCase();
+    if (mode !== 'record' && mode !== 'replay' && mode !== 'auto') return adapter;
+
+    const cassetteDir = path.join(process.env.LLM_CASSETTE_DIR || 'cassettes', provider);
+    const timingScale = process.env.LLM_CASSETTE_TIMING_SCALE !== undefined
+      ? parseFloat(process.env.LLM_CASSETTE_TIMING_SCALE)
+      : 1;
+    console.log(`📼 [LLMProviderRegistry] ${provider} cassettes: mode=${mode}, dir=${cassetteDir}`);
+    return new RecordReplayAdapter(adapter, {
+      mode: mode as CassetteMode,
+      cassetteDir,
+      timingScale: Number.isFinite(timingScale) ? timingScale : 1
+    });
+  }
+
+  /**
+   * Register (or replace) the adapter factory for a provider
+   */
+  register(provider: LLMProvider, factory: AdapterFactory): void {
+    this.factories.set(provider, factory);
+    this.adapters.delete(provider);
+  }
+
+  /**
+   * Get the adapter for a provider (instantiated lazily, one per provider)
+   */
+  getAdapter(provider: LLMProvider): ILLMAdapter {
+    const existing = this.adapters.get(provider);
+    if (existing) return existing;
+
+    const factory = this.factories.get(provider);
+    if (!factory) {
+      throw new Error(`No LLM adapter registered for provider "${provider}"`);
+    }
+    const adapter = factory();
+    this.adapters.set(provider, adapter);
+    return adapter;
+  }
+
+  /**
+   * Provider forced through LLM_PROVIDER, if any
+   */
+  getForcedProvider(): LLMProvider | undefined {
+    const forced = (process.env.LLM_PROVIDER || '').trim().toLowerCase();
+    if (!forced || forced === 'auto') return undefined;
+    return this.factories.has(forced as LLMProvider) ? (forced as LLMProvider) : undefined;
+  }
+
+  /**
+   * Resolve the adapter and upstream model id for a selected model
+   */
+  async resolve(modelId: string): Promise<ResolvedLLMProvider> {
+    const forced = this.getForcedProvider();
+    if (forced === 'local') {
+      const localModel = process.env.LOCAL_LLM_MODEL || modelId;
+      console.log(`🏠 [LLMProviderRegistry] LLM_PROVIDER=local, routing ${modelId} to local model ${localModel}`);
+      return { provider: 'local', adapter: this.getAdapter('local'), model: localModel };
+    }
+    if (forced) {
+      return { provider: forced, adapter: this.getAdapter(forced), model: modelId };
+    }
+
+    const catalogModel = await modelManager.getModelById(modelId);
+    const provider: LLMProvider = catalogModel?.provider || 'openrouter';
+    const model = provider === 'local' && catalogModel ? catalogModel.model_id : modelId;
+    return { provider, adapter: this.getAdapter(provider), model };
+  }
+
+  /**
+   * Readiness per registered provider (for health checks)
+   */
+  getStatus(): Record<string, boolean> {
+    const status: Record<string, boolean> = {};
+    for (const provider of this.factories.keys()) {
+      try {
+        status[provider] = this.getAdapter(provider).isReady();
+      } catch {
+        status[provider] = false;
+      }
+    }
+    return status;
+  }
+}
+
+// Export singleton instance
+export const llmProviderRegistry = new LLMProviderRegistry();
@@ -0,0 +1,289 @@
+import { ILLMAdapter } from './llmAdapter';
+import { subscriptionService } from './subscriptionService';
+import { LLMOverloadedError, LLMCancelledError } from './llmErrors';
+import { LLMMessage, DeltaChunk, LLMOptions, PlanPriority } from '../types';
+
+const PRIORITY_RANK: Record<PlanPriority, number> = { free: 0, pro: 1, premium: 2 };
+
+export interface SchedulerConfig {
+  maxConcurrencyPerModel: number; // concurrent upstream calls per model
+  maxQueueLength: number;         // waiting requests per model before shedding
+  maxQueueWaitMs: number;         // longest a request may wait for a slot
+}
+
+export interface SchedulerTicket {
+  priority?: PlanPriority;
+  requestId?: string;
+  onQueuePosition?: (position: number, queueLength: number) => void;
+}
+
+export interface ModelQueueStats {
+  model: string;
+  active: number;
+  queued: number;
+  queuedByPriority: Record<PlanPriority, number>;
+}
+
+interface QueuedRequest {
+  model: string;
+  priority: PlanPriority;
+  requestId?: string;
+  enqueuedAt: number;
+  lastPosition: number;
+  onQueuePosition?: (position: number, queueLength: number) => void;
+  resolve: (release: () => void) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+interface ModelLane {
+  active: number;
+  queue: QueuedRequest[]; // highest priority first, FIFO within a priority
+}
+
+/**
+ * Global scheduler for upstream LLM calls.
+ * - Caps concurrent calls per model; the rest wait in a per-model queue ordered premium > pro > free.
+ * - Queued requests get position updates; a slot is reported as position 0.
+ * - Sheds load when the queue is full (lowest-priority, newest request goes first) or a request waits too long.
+ */
+export class LLMScheduler {
+  private lanes: Map<string, ModelLane> = new Map();
+  private config: SchedulerConfig;
+  private metrics = {
+    dispatched: { count: 0, inc: () => this.metrics.dispatched.count++ },
+    queued: { count: 0, inc: () => this.metrics.queued.count++ },
+    shed: { count: 0, inc: () => this.metrics.shed.count++ },
+    cancelled: { count: 0, inc: () => this.metrics.cancelled.count++ }
+  };
+
+  constructor(config: Partial<SchedulerConfig> = {}) {
+    this.config = {
+      maxConcurrencyPerModel: config.maxConcurrencyPerModel ?? parseInt(process.env.LLM_MAX_CONCURRENCY_PER_MODEL || '4'),
+      maxQueueLength: config.maxQueueLength ?? parseInt(process.env.LLM_MAX_QUEUE_PER_MODEL || '20'),
+      maxQueueWaitMs: config.maxQueueWaitMs ?? parseInt(process.env.LLM_MAX_QUEUE_WAIT_MS || '20000')
+    };
+  }
+
+  /**
+   * Wait for a slot on a model. Resolves with a release function that must be called exactly once.
+   */
+  acquire(model: string, ticket: SchedulerTicket = {}): Promise<() => void> {
+    const lane = this.getLane(model);
+    const priority = ticket.priority || 'free';
+
+    if (lane.active < this.config.maxConcurrencyPerModel && lane.queue.length === 0) {
+      lane.active++;
+      this.metrics.dispatched.inc();
+      return Promise.resolve(this.createRelease(model));
+    }
+
+    if (lane.queue.length >= this.config.maxQueueLength) {
+      // Full queue: a higher-priority request displaces the lowest-priority, newest waiter
+      const last = lane.queue[lane.queue.length - 1];
+      if (!last || PRIORITY_RANK[last.priority] >= PRIORITY_RANK[priority]) {
+        this.metrics.shed.inc();
+        console.warn(`🚦 [LLMScheduler] Shedding ${priority} request ${ticket.requestId || ''} for ${model} (queue full: ${lane.queue.length})`);
+        return Promise.reject(new LLMOverloadedError(model, 'queue_full', this.estimateWaitMs(lane)));
+      }
+      lane.queue.pop();
+      clearTimeout(last.timer);
+      this.metrics.shed.inc();
+      console.warn(`🚦 [LLMScheduler] Evicting ${last.priority} request ${last.requestId || ''} for ${model} in favour of ${priority}`);
+      last.reject(new LLMOverloadedError(model, 'queue_full', this.estimateWaitMs(lane)));
+    }
+
+    return new Promise<() => void>((resolve, reject) => {
+      const request: QueuedRequest = {
+        model,
+        priority,
+        requestId: ticket.requestId,
+        enqueuedAt: Date.now(),
+        lastPosition: 0,
+        onQueuePosition: ticket.onQueuePosition,
+        resolve,
+        reject,
+        timer: setTimeout(() => {
+          if (!this.removeFromQueue(lane, request)) return;
+          this.metrics.shed.inc();
+          console.warn(`🚦 [LLMScheduler] ${priority} request ${request.requestId || ''} for ${model} waited ${this.config.maxQueueWaitMs}ms, shedding`);
+          reject(new LLMOverloadedError(model, 'queue_timeout', this.estimateWaitMs(lane)));
+          this.notifyPositions(lane);
+        }, this.config.maxQueueWaitMs)
+      };
+
+      // Insert after every request of the same or higher priority
+      const index = lane.queue.findIndex(queued => PRIORITY_RANK[queued.priority] < PRIORITY_RANK[priority]);
+      if (index === -1) {
+        lane.queue.push(request);
+      } else {
+        lane.queue.splice(index, 0, request);
+      }
+      this.metrics.queued.inc();
+      console.log(`⏳ [LLMScheduler] Queued ${priority} request ${request.requestId || ''} for ${model} (active ${lane.active}, queued ${lane.queue.length})`);
+      this.notifyPositions(lane);
+    });
+  }
+
+  /**
+   * Remove a queued request (e.g. the user cancelled). Returns false when it is not waiting.
+   */
+  withdraw(requestId: string): boolean {
+    for (const lane of this.lanes.values()) {
+      const request = lane.queue.find(queued => queued.requestId === requestId);
+      if (!request) continue;
+      this.removeFromQueue(lane, request);
+      clearTimeout(request.timer);
+      this.metrics.cancelled.inc();
+      request.reject(new LLMCancelledError(requestId, { model: request.model }));
+      this.notifyPositions(lane);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Queue priority for a user from their active subscription plan (anonymous users are free)
+   */
+  async getPriorityForUser(userId?: string): Promise<PlanPriority> {
+    if (!userId) return 'free';
+    try {
+      const subscription = await subscriptionService.getUserSubscription(userId);
+      const plan = subscription?.status === 'active' ? subscription.plan : undefined;
+      return plan === 'premium' || plan === 'pro' ? plan : 'free';
+    } catch (error) {
+      console.warn(`⚠️ [LLMScheduler] Could not load subscription for ${userId}, using free priority:`, error);
+      return 'free';
+    }
+  }
+
+  /**
+   * Per-model load and scheduler counters (for health checks)
+   */
+  getStats(): { config: SchedulerConfig; models: ModelQueueStats[]; totals: Record<string, number> } {
+    const models: ModelQueueStats[] = [];
+    for (const [model, lane] of this.lanes) {
+      if (lane.active === 0 && lane.queue.length === 0) continue;
+      const queuedByPriority: Record<PlanPriority, number> = { free: 0, pro: 0, premium: 0 };
+      lane.queue.forEach(request => queuedByPriority[request.priority]++);
+      models.push({ model, active: lane.active, queued: lane.queue.length, queuedByPriority });
+    }
+    return {
+      config: { ...this.config },
+      models,
+      totals: {
+        dispatched: this.metrics.dispatched.count,
+        queued: this.metrics.queued.count,
+        shed: this.metrics.shed.count,
+        cancelled: this.metrics.cancelled.count
+      }
+    };
+  }
+
+  private getLane(model: string): ModelLane {
+    let lane = this.lanes.get(model);
+    if (!lane) {
+      lane = { active: 0, queue: [] };
+      this.lanes.set(model, lane);
+    }
+    return lane;
+  }
+
+  private createRelease(model: string): () => void {
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      const lane = this.getLane(model);
+      lane.active = Math.max(0, lane.active - 1);
+      this.dispatchNext(lane);
+    };
+  }
+
+  private dispatchNext(lane: ModelLane): void {
+    while (lane.active < this.config.maxConcurrencyPerModel && lane.queue.length > 0) {
+      const next = lane.queue.shift()!;
+      clearTimeout(next.timer);
+      lane.active++;
+      this.metrics.dispatched.inc();
+      console.log(`🚦 [LLMScheduler] Dispatching ${next.priority} request ${next.requestId || ''} for ${next.model} after ${Date.now() - next.enqueuedAt}ms in queue`);
+      next.onQueuePosition?.(0, lane.queue.length);
+      next.resolve(this.createRelease(next.model));
+    }
+    this.notifyPositions(lane);
+  }
+
+  private removeFromQueue(lane: ModelLane, request: QueuedRequest): boolean {
+    const index = lane.queue.indexOf(request);
+    if (index === -1) return false;
+    lane.queue.splice(index, 1);
+    return true;
+  }
+
+  private notifyPositions(lane: ModelLane): void {
+    lane.queue.forEach((request, index) => {
+      const position = index + 1;
+      if (request.lastPosition === position) return;
+      request.lastPosition = position;
+      try {
+        request.onQueuePosition?.(position, lane.queue.length);
+      } catch (error) {
+        console.warn('⚠️ [LLMScheduler] Queue position callback failed:', error);
+      }
+    });
+  }
+
+  /**
+   * Rough time until a new request would get a slot, assuming ~10s per upstream call
+   */
+  private estimateWaitMs(lane: ModelLane): number {
+    const rounds = Math.ceil((lane.queue.length + 1) / Math.max(1, this.config.maxConcurrencyPerModel));
+    return Math.min(this.config.maxQueueWaitMs, rounds * 10000);
+  }
+}
+
+/**
+ * ILLMAdapter decorator that runs every upstream call through the scheduler.
+ * Cancelling a request that is still queued withdraws it before it reaches the provider.
+ */
+export class ScheduledAdapter implements ILLMAdapter {
+  private inner: ILLMAdapter;
+  private scheduler: LLMScheduler;
+
+  constructor(inner: ILLMAdapter, scheduler: LLMScheduler) {
+    this.inner = inner;
+    this.scheduler = scheduler;
+  }
+
+  async *streamCompletion(messages: LLMMessage[], options: LLMOptions): AsyncIterable<DeltaChunk> {
+    const { priority, onQueuePosition, ...innerOptions } = options;
+    const release = await this.scheduler.acquire(options.model, { priority, onQueuePosition, requestId: options.requestId });
+    try {
+      yield* this.inner.streamCompletion(messages, innerOptions);
+    } finally {
+      release();
+    }
+  }
+
+  async fetchCompletion(messages: LLMMessage[], options: LLMOptions): Promise<string> {
+    const { priority, onQueuePosition, ...innerOptions } = options;
+    const release = await this.scheduler.acquire(options.model, { priority, onQueuePosition, requestId: options.requestId });
+    try {
+      return await this.inner.fetchCompletion(messages, innerOptions);
+    } finally {
+      release();
+    }
+  }
+
+  async cancel(requestId: string): Promise<void> {
+    this.scheduler.withdraw(requestId);
+    await this.inner.cancel(requestId);
+  }
+
+  isReady(): boolean {
+    return this.inner.isReady();
+  }
+}
+
+// Export singleton instance
+export const llmScheduler = new LLMScheduler();
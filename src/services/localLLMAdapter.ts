@@ -0,0 +1,14 @@
+import { OpenRouterAdapter } from './openrouterAdapter';
+
+/**
+ * Adapter for OpenAI-compatible servers running next to the app (Ollama, llama.cpp server, LM Studio...).
+ * These speak the same /chat/completions protocol as OpenRouter, so we reuse the streaming implementation
+ * and only relax the readiness check: local servers usually don't require an API key.
+ */
+export class LocalLLMAdapter extends OpenRouterAdapter {
+  protected logPrefix = '[LocalLLM]';
+
+  isReady(): boolean {
+    return !!this.baseUrl;
+  }
+}
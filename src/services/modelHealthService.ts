@@ -0,0 +1,212 @@
+export type BreakerState = 'closed' | 'open' | 'half_open';
+export type ModelFailureKind = 'error' | 'timeout' | 'rate_limited';
+
+export interface ModelHealthSnapshot {
+  model: string;
+  state: BreakerState;
+  successes: number;
+  errors: number;
+  timeouts: number;
+  rate_limited: number;
+  error_rate: number;          // over the sliding window
+  consecutive_failures: number;
+  opened_at?: string;
+  retry_at?: string;           // when an open breaker lets a probe through
+  last_error?: string;
+}
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+}
+
+interface ModelHealth {
+  state: BreakerState;
+  outcomes: Outcome[];
+  successes: number;
+  errors: number;
+  timeouts: number;
+  rateLimited: number;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probeStartedAt?: number; // half_open: the single probe request in flight
+  lastError?: string;
+}
+
+/**
+ * Live per-model health with a circuit breaker, fed by the LLM adapters.
+ * - closed: requests flow; opens after N consecutive failures or a high error rate over the window
+ * - open: model reported unavailable until the cooldown elapses
+ * - half_open: one probe request is let through; a success closes the breaker, a failure re-opens it
+ */
+export class ModelHealthService {
+  private health: Map<string, ModelHealth> = new Map();
+  private aliases: Map<string, string> = new Map(); // upstream model_id -> catalog id
+  private failureThreshold = parseInt(process.env.MODEL_BREAKER_FAILURE_THRESHOLD || '5');
+  private errorRateThreshold = parseFloat(process.env.MODEL_BREAKER_ERROR_RATE || '0.5');
+  private minRequests = parseInt(process.env.MODEL_BREAKER_MIN_REQUESTS || '10');
+  private cooldownMs = parseInt(process.env.MODEL_BREAKER_COOLDOWN_MS || '60000');
+  private windowMs = 5 * 60 * 1000;
+
+  /**
+   * Track an upstream model id under its catalog id, so adapters and the catalog share one breaker
+   */
+  registerAlias(alias: string, catalogId: string): void {
+    if (alias && alias !== catalogId) {
+      this.aliases.set(alias, catalogId);
+    }
+  }
+
+  recordSuccess(rawModel: string): void {
+    const model = this.canonical(rawModel);
+    const health = this.getOrCreate(model);
+    health.successes++;
+    health.consecutiveFailures = 0;
+    health.probeStartedAt = undefined;
+    this.pushOutcome(health, true);
+
+    if (health.state !== 'closed') {
+      console.log(`✅ [ModelHealth] Breaker closed for ${model} after successful probe`);
+      health.state = 'closed';
+      health.openedAt = undefined;
+    }
+  }
+
+  recordFailure(rawModel: string, kind: ModelFailureKind, detail?: string): void {
+    const model = this.canonical(rawModel);
+    const health = this.getOrCreate(model);
+    if (kind === 'timeout') health.timeouts++;
+    else if (kind === 'rate_limited') health.rateLimited++;
+    else health.errors++;
+    health.consecutiveFailures++;
+    health.lastError = detail ? `${kind}: ${detail}`.slice(0, 300) : kind;
+    health.probeStartedAt = undefined;
+    this.pushOutcome(health, false);
+
+    if (health.state === 'half_open') {
+      this.open(model, health, 'probe failed');
+      return;
+    }
+    if (health.state === 'closed') {
+      const errorRate = this.errorRate(health);
+      if (health.consecutiveFailures >= this.failureThreshold) {
+        this.open(model, health, `${health.consecutiveFailures} consecutive failures`);
+      } else if (health.outcomes.length >= this.minRequests && errorRate >= this.errorRateThreshold) {
+        this.open(model, health, `error rate ${(errorRate * 100).toFixed(0)}%`);
+      }
+    }
+  }
+
+  /**
+   * Whether a request may be sent to this model right now. Call only when about to send:
+   * once the cooldown has elapsed, the first caller becomes the half-open probe and later callers are refused.
+   */
+  isAvailable(rawModel: string): boolean {
+    const model = this.canonical(rawModel);
+    const health = this.health.get(model);
+    if (!health || health.state === 'closed') return true;
+
+    const now = Date.now();
+    if (health.state === 'open' && now - (health.openedAt || 0) >= this.cooldownMs) {
+      console.log(`🟡 [ModelHealth] Breaker half-open for ${model}, allowing a probe request`);
+      health.state = 'half_open';
+    }
+    // A probe that never reported back (e.g. cancelled) frees the slot after another cooldown
+    if (health.state === 'half_open' && (!health.probeStartedAt || now - health.probeStartedAt >= this.cooldownMs)) {
+      health.probeStartedAt = now;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Read-only availability for listings: whether a request would be let through, without changing breaker state
+   */
+  peekAvailable(rawModel: string): boolean {
+    const health = this.health.get(this.canonical(rawModel));
+    if (!health || health.state === 'closed') return true;
+
+    const now = Date.now();
+    if (health.state === 'open') return now - (health.openedAt || 0) >= this.cooldownMs;
+    return !health.probeStartedAt || now - health.probeStartedAt >= this.cooldownMs;
+  }
+
+  getSnapshot(rawModel: string): ModelHealthSnapshot {
+    const model = this.canonical(rawModel);
+    const health = this.health.get(model);
+    if (!health) {
+      return {
+        model,
+        state: 'closed',
+        successes: 0,
+        errors: 0,
+        timeouts: 0,
+        rate_limited: 0,
+        error_rate: 0,
+        consecutive_failures: 0
+      };
+    }
+    return {
+      model,
+      state: health.state,
+      successes: health.successes,
+      errors: health.errors,
+      timeouts: health.timeouts,
+      rate_limited: health.rateLimited,
+      error_rate: Number(this.errorRate(health).toFixed(3)),
+      consecutive_failures: health.consecutiveFailures,
+      opened_at: health.openedAt ? new Date(health.openedAt).toISOString() : undefined,
+      retry_at: health.state === 'open' && health.openedAt
+        ? new Date(health.openedAt + this.cooldownMs).toISOString()
+        : undefined,
+      last_error: health.lastError
+    };
+  }
+
+  getAllSnapshots(): ModelHealthSnapshot[] {
+    return Array.from(this.health.keys()).map(model => this.getSnapshot(model));
+  }
+
+  private canonical(model: string): string {
+    return this.aliases.get(model) || model;
+  }
+
+  private open(model: string, health: ModelHealth, reason: string): void {
+    health.state = 'open';
+    health.openedAt = Date.now();
+    health.probeStartedAt = undefined;
+    console.warn(`🔴 [ModelHealth] Breaker opened for ${model} (${reason}); retry in ${this.cooldownMs}ms`);
+  }
+
+  private errorRate(health: ModelHealth): number {
+    if (health.outcomes.length === 0) return 0;
+    const failures = health.outcomes.filter(o => !o.ok).length;
+    return failures / health.outcomes.length;
+  }
+
+  private pushOutcome(health: ModelHealth, ok: boolean): void {
+    const now = Date.now();
+    health.outcomes.push({ at: now, ok });
+    health.outcomes = health.outcomes.filter(o => now - o.at <= this.windowMs);
+  }
+
+  private getOrCreate(model: string): ModelHealth {
+    let health = this.health.get(model);
+    if (!health) {
+      health = {
+        state: 'closed',
+        outcomes: [],
+        successes: 0,
+        errors: 0,
+        timeouts: 0,
+        rateLimited: 0,
+        consecutiveFailures: 0
+      };
+      this.health.set(model, health);
+    }
+    return health;
+  }
+}
+
+// Export singleton instance
+export const modelHealthService = new ModelHealthService();
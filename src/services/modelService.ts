@@ -1,5 +1,6 @@
 import { AIModel } from '../models/conversation';
 import { getSupabase } from './db';
+import { modelHealthService } from './modelHealthService';
 
 export class ModelManager {
   private availableModels: AIModel[] = [];
@@ -67,20 +68,56 @@ export class ModelManager {
         inference_speed: 'fast'
       }
     ];
+
+    // Self-hosted OpenAI-compatible server (Ollama / llama.cpp), only listed when configured
+    if (process.env.LOCAL_LLM_MODEL) {
+      this.availableModels.push({
+        id: 'local',
+        name: 'Local Model',
+        provider: 'local',
+        model_id: process.env.LOCAL_LLM_MODEL,
+        display_name: `Local (${process.env.LOCAL_LLM_MODEL})`,
+        description: 'Model served by a local OpenAI-compatible server',
+        context_window: parseInt(process.env.LOCAL_LLM_CONTEXT_WINDOW || '8192'),
+        pricing_per_token: 0,
+        is_available: true,
+        capabilities: ['text'],
+        inference_speed: 'medium'
+      });
+    }
+
+    // Adapters report health under whichever id they were called with; key breakers by catalog id
+    for (const model of this.availableModels) {
+      if (model.model_id) modelHealthService.registerAlias(model.model_id, model.id);
+    }
   }
 
   /**
-   * Get all available models
+   * Get all available models (is_available reflects the live circuit breaker)
    */
   async getAvailableModels(): Promise<AIModel[]> {
-    return this.availableModels;
+    return this.availableModels.map(model => ({ ...model, is_available: this.isModelAvailable(model) }));
+  }
+
+  /**
+   * Static availability combined with the model's circuit breaker (read-only, for listings)
+   */
+  private isModelAvailable(model: AIModel): boolean {
+    return model.is_available && modelHealthService.peekAvailable(model.id);
+  }
+
+  /**
+   * Same check right before sending a request; a half-open breaker admits the caller as its single probe
+   */
+  private admitModel(model: AIModel): boolean {
+    return model.is_available && modelHealthService.isAvailable(model.id);
   }
 
   /**
-   * Get model by ID
+   * Get model by ID (catalog id or upstream model_id)
    */
   async getModelById(id: string): Promise<AIModel | undefined> {
-    return this.availableModels.find(model => model.id === id);
+    return this.availableModels.find(model => model.id === id || model.model_id === id);
   }
 
   /**
@@ -103,24 +140,26 @@ export class ModelManager {
    * Automatic fallback for unavailable models
    */
   async getFallbackModel(preferredModelId: string): Promise<AIModel> {
-    const preferred = this.availableModels.find(m => m.id === preferredModelId);
-    if (preferred?.is_available) return preferred;
+    const preferred = this.availableModels.find(m => m.id === preferredModelId || m.model_id === preferredModelId);
+    if (preferred && this.admitModel(preferred)) return preferred;
 
-    // Find fastest available alternative
+    // Find fastest available alternative (only the one returned may take a half-open probe)
     return this.availableModels
-      .filter(m => m.is_available)
+      .filter(m => m !== preferred && this.isModelAvailable(m))
       .sort((a, b) => {
         const speedOrder = { fast: 0, medium: 1, slow: 2 };
         return speedOrder[a.inference_speed] - speedOrder[b.inference_speed];
-      })[0] || this.availableModels[0];
+      })
+      .find(m => this.admitModel(m)) || this.availableModels[0];
   }
 
   /**
-   * Check model availability
+   * Check model availability before sending a request to it (may admit the half-open probe)
    */
   async checkModelAvailability(modelId: string): Promise<boolean> {
-    const model = this.availableModels.find(m => m.id === modelId);
-    return model?.is_available ?? false;
+    const model = this.availableModels.find(m => m.id === modelId || m.model_id === modelId);
+    // Raw provider slugs outside the catalog are only gated by their breaker
+    return model ? this.admitModel(model) : modelHealthService.isAvailable(modelId);
   }
 
   /**
@@ -128,7 +167,7 @@ export class ModelManager {
    */
   async getModelsByCapability(capability: string): Promise<AIModel[]> {
     return this.availableModels.filter(model => 
-      model.is_available && model.capabilities.includes(capability)
+      this.isModelAvailable(model) && model.capabilities.includes(capability)
     );
   }
 }
@@ -1,7 +1,24 @@
 import { BaseLLMAdapter } from './llmAdapter';
-import { LLMMessage, DeltaChunk, LLMOptions } from '../types';
+import { LLMMessage, DeltaChunk, LLMOptions, ToolCall } from '../types';
+import { normalizeUsage } from './tokenEstimator';
+import { modelHealthService } from './modelHealthService';
+import {
+  LLMError,
+  LLMTimeoutError,
+  LLMCancelledError,
+  LLMUpstreamError,
+  LLMContentFilteredError,
+  classifyHttpError
+} from './llmErrors';
+
+// Retries for rate limits, 5xx and network failures (never past the request timeout)
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '2');
+const RETRY_BASE_DELAY_MS = parseInt(process.env.LLM_RETRY_BASE_DELAY_MS || '500');
+// A Retry-After longer than this is surfaced to the caller instead of waited out
+const RETRY_MAX_DELAY_MS = parseInt(process.env.LLM_RETRY_MAX_DELAY_MS || '10000');
 
 export class OpenRouterAdapter extends BaseLLMAdapter {
+  protected logPrefix = '[OpenRouter]';
   private activeRequests: Map<string, AbortController> = new Map();
   private activeStreams: Map<string, { reader: ReadableStreamDefaultReader<Uint8Array>; decoder: TextDecoder; controller: AbortController }> = new Map();
 
@@ -14,69 +31,32 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
 
     this.activeRequests.set(requestId, controller);
 
-    let response: Response | null = null;
 
     try {
       // Log before OpenRouter call
-      console.log(`[OpenRouter] streamCompletion called for request ${requestId}`);
-      console.log(`[OpenRouter] API key present: ${!!this.apiKey ? `${this.apiKey.slice(0, 10)}...` : 'NO KEY'}`);
-      console.log(`[OpenRouter] Model: ${options.model}, Messages length: ${messages.length}`);
-      // Validate model before proceeding
-      const body: any = {
-        model: options.model,
-        messages,
-        stream: true,
-        max_tokens: 1000,
-      };
-      if (typeof options.temperature === 'number') {
-        body.temperature = options.temperature;
-      }
-      // Prefers json_schema if provided, otherwise allow a raw response_format
-      if (options.jsonSchema) {
-        body.response_format = { type: 'json_schema', json_schema: options.jsonSchema };
-      } else if (options.responseFormat) {
-        body.response_format = options.responseFormat;
-      }
+      console.log(`${this.logPrefix} streamCompletion called for request ${requestId}`);
+      console.log(`${this.logPrefix} API key present: ${!!this.apiKey ? `${this.apiKey.slice(0, 10)}...` : 'NO KEY'}`);
+      console.log(`${this.logPrefix} Model: ${options.model}, Messages length: ${messages.length}`);
+      const body = this.buildRequestBody(messages, options, true);
 
-      console.log(`[OpenRouter] Fetching ${this.baseUrl}/chat/completions with model ${options.model} for request ${requestId}`);
+      console.log(`${this.logPrefix} Fetching ${this.baseUrl}/chat/completions with model ${options.model} for request ${requestId}`);
 
       const fullUrl = `${this.baseUrl}/chat/completions`;
-      console.log(`[OpenRouter] Full request details for ${requestId}:`);
+      console.log(`${this.logPrefix} Full request details for ${requestId}:`);
       console.log(`  Method: POST`);
       console.log(`  URL: ${fullUrl}`);
       console.log(`  Headers: Authorization=Bearer ${this.apiKey ? '[REDACTED]' : 'MISSING'}, Content-Type=application/json`);
       console.log(`  Body:`, JSON.stringify(body, null, 2));
 
-      const timeoutId = setTimeout(() => {
-        console.error(`[OpenRouter] Request ${requestId} timeout after 30s - aborting`);
-        controller.abort();
-      }, 30000); // 30s timeout
-
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+      const response = await this.postWithRetry(body, options, requestId, controller);
 
-      console.log(`[OpenRouter] Fetch response status: ${response.status} for request ${requestId}`);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[OpenRouter] API error ${response.status}: ${errorText} for request ${requestId}`);
-        throw new Error(`OpenRouter API error: ${response.status} ${errorText}`);
-      }
+      console.log(`${this.logPrefix} Fetch response status: ${response.status} for request ${requestId}`);
 
       if (!response.body) {
         throw new Error('Response body is not readable');
       }
 
-      console.log(`[OpenRouter] Starting stream processing for request ${requestId}`);
+      console.log(`${this.logPrefix} Starting stream processing for request ${requestId}`);
 
       // Use proper streaming with native ReadableStream
       const reader = response.body.getReader();
@@ -88,16 +68,24 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
       this.activeStreams.set(requestId, { reader, decoder, controller });
 
       let hasChunks = false;
+      let usage: any;
+      // Tool-call deltas arrive in fragments keyed by index; arguments are concatenated
+      const toolCallsByIndex: Map<number, ToolCall> = new Map();
+      const assembledToolCalls = () =>
+        toolCallsByIndex.size > 0
+          ? Array.from(toolCallsByIndex.entries()).sort(([a], [b]) => a - b).map(([, call]) => call)
+          : undefined;
 
       try {
         while (true) {
           const { done, value } = await reader.read();
           if (done) {
             // Log concatenated raw payload for debugging (truncated to avoid huge logs)
-            console.log(`[OpenRouter] Stream complete for request ${requestId}, hasChunks: ${hasChunks}`);
-            console.log(`[OpenRouter] Concatenated payload length for ${requestId}: ${concatenated.length}`);
-            console.log(`[OpenRouter] Concatenated payload preview (truncated 2000 chars):`, concatenated.slice(0, 2000));
-            yield { isFinal: true };
+            console.log(`${this.logPrefix} Stream complete for request ${requestId}, hasChunks: ${hasChunks}`);
+            console.log(`${this.logPrefix} Concatenated payload length for ${requestId}: ${concatenated.length}`);
+            console.log(`${this.logPrefix} Concatenated payload preview (truncated 2000 chars):`, concatenated.slice(0, 2000));
+            if (hasChunks) modelHealthService.recordSuccess(options.model);
+            yield { isFinal: true, toolCalls: assembledToolCalls(), meta: { usage: normalizeUsage(usage) } };
             break;
           }
 
@@ -116,37 +104,79 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
             if (line.startsWith('data: ')) {
               const data = line.slice(6);
               if (data === '[DONE]') {
-                console.log(`[OpenRouter] Stream ended with [DONE] for request ${requestId}`);
-                console.log(`[OpenRouter] Concatenated payload length for ${requestId} at DONE: ${concatenated.length}`);
-                console.log(`[OpenRouter] Concatenated payload preview (truncated 2000 chars) at DONE:`, concatenated.slice(0, 2000));
-                yield { isFinal: true };
+                console.log(`${this.logPrefix} Stream ended with [DONE] for request ${requestId}`);
+                console.log(`${this.logPrefix} Concatenated payload length for ${requestId} at DONE: ${concatenated.length}`);
+                console.log(`${this.logPrefix} Concatenated payload preview (truncated 2000 chars) at DONE:`, concatenated.slice(0, 2000));
+                if (hasChunks) {
+                  modelHealthService.recordSuccess(options.model);
+                } else {
+                  modelHealthService.recordFailure(options.model, 'error', 'empty response');
+                }
+                yield { isFinal: true, toolCalls: assembledToolCalls(), meta: { usage: normalizeUsage(usage) } };
                 return;
               }
 
+              let parsed: any;
               try {
-                const parsed = JSON.parse(data);
-                const delta = parsed.choices?.[0]?.delta;
-
-                if (delta?.content) {
-                  hasChunks = true;
-                  console.log(`[OpenRouter] Yielding chunk of length ${delta.content.length} for request ${requestId}`);
-                  yield {
-                    deltaText: delta.content,
-                    isFinal: false,
-                    meta: {
-                      usage: parsed.usage,
-                      requestId: parsed.id
-                    }
-                  };
-                } else if (delta && !delta.content) {
-                  // Tolerate empty deltas but log them for debugging
-                  console.log(`[OpenRouter] Empty delta received for request ${requestId} - tolerating`);
-                } else if (!delta) {
-                  console.log(`[OpenRouter] No delta in parsed response for request ${requestId} - skipping`);
-                }
+                parsed = JSON.parse(data);
               } catch (parseError) {
-                console.warn(`[OpenRouter] Failed to parse line "${line}" for request ${requestId}:`, parseError);
+                console.warn(`${this.logPrefix} Failed to parse line "${line}" for request ${requestId}:`, parseError);
                 // Skip invalid JSON lines
+                continue;
+              }
+
+              // Errors after the 200 arrive as an SSE payload: { error: { code, message } }
+              if (parsed.error) {
+                throw this.classifyBodyError(parsed.error, options.model);
+              }
+              if (parsed.choices?.[0]?.finish_reason === 'content_filter' && !hasChunks) {
+                throw new LLMContentFilteredError(`${this.providerName} response was blocked by the content filter`, { model: options.model });
+              }
+
+              const delta = parsed.choices?.[0]?.delta;
+              if (parsed.usage) {
+                usage = parsed.usage;
+              }
+
+              if (Array.isArray(delta?.tool_calls)) {
+                hasChunks = true;
+                for (const fragment of delta.tool_calls) {
+                  const index = typeof fragment.index === 'number' ? fragment.index : toolCallsByIndex.size;
+                  const existing = toolCallsByIndex.get(index);
+                  if (!existing) {
+                    toolCallsByIndex.set(index, {
+                      id: fragment.id || `call_${requestId}_${index}`,
+                      type: 'function',
+                      function: {
+                        name: fragment.function?.name || '',
+                        arguments: fragment.function?.arguments || ''
+                      }
+                    });
+                  } else {
+                    if (fragment.id) existing.id = fragment.id;
+                    if (fragment.function?.name) existing.function.name += fragment.function.name;
+                    if (fragment.function?.arguments) existing.function.arguments += fragment.function.arguments;
+                  }
+                }
+                console.log(`${this.logPrefix} Tool-call delta received for request ${requestId} (${toolCallsByIndex.size} call(s))`);
+              }
+
+              if (delta?.content) {
+                hasChunks = true;
+                console.log(`${this.logPrefix} Yielding chunk of length ${delta.content.length} for request ${requestId}`);
+                yield {
+                  deltaText: delta.content,
+                  isFinal: false,
+                  // Usage is reported once, normalized, on the final chunk
+                  meta: {
+                    requestId: parsed.id
+                  }
+                };
+              } else if (delta && !delta.content && !delta.tool_calls) {
+                // Tolerate empty deltas but log them for debugging
+                console.log(`${this.logPrefix} Empty delta received for request ${requestId} - tolerating`);
+              } else if (!delta) {
+                console.log(`${this.logPrefix} No delta in parsed response for request ${requestId} - skipping`);
               }
             }
           }
@@ -154,7 +184,7 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
 
         // Check for no chunks after loop
         if (!hasChunks) {
-          console.error(`[OpenRouter] No chunks received for request ${requestId} - possible API issue or empty response`);
+          console.error(`${this.logPrefix} No chunks received for request ${requestId} - possible API issue or empty response`);
           throw new Error('No response chunks received from OpenRouter');
         }
       } finally {
@@ -170,11 +200,14 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
         this.activeStreams.delete(requestId);
       }
     } catch (error: any) {
-      console.error(`[OpenRouter] StreamCompletion error for request ${requestId}:`, error);
-      if (error.name === 'AbortError' || error.message.includes('aborted')) {
+      console.error(`${this.logPrefix} StreamCompletion error for request ${requestId}:`, error);
+      const llmError = this.toLLMError(error, options.model, requestId);
+      this.recordHealthFailure(options.model, llmError);
+      if (llmError.kind === 'cancelled') {
+        // Callers check their own cancel flag; the stream just ends
         console.log(`Request ${requestId} was cancelled`);
       } else {
-        throw error;
+        throw llmError;
       }
     } finally {
       // Ensure cleanup happens even if error occurs
@@ -193,51 +226,24 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
 
     try {
       // Similar logging for non-streaming
-      console.log(`[OpenRouter] fetchCompletion called for request ${requestId}`);
-      console.log(`[OpenRouter] API key present: ${!!this.apiKey ? `${this.apiKey.slice(0, 10)}...` : 'NO KEY'}`);
-      console.log(`[OpenRouter] Model: ${options.model}, Messages length: ${messages.length}`);
-
-      const body: any = {
-        model: options.model,
-        messages,
-        stream: false,
-        max_tokens: 1000,
-      };
-      if (typeof options.temperature === 'number') {
-        body.temperature = options.temperature;
-      }
-      if (options.jsonSchema) {
-        body.response_format = { type: 'json_schema', json_schema: options.jsonSchema };
-      } else if (options.responseFormat) {
-        body.response_format = options.responseFormat;
-      }
+      console.log(`${this.logPrefix} fetchCompletion called for request ${requestId}`);
+      console.log(`${this.logPrefix} API key present: ${!!this.apiKey ? `${this.apiKey.slice(0, 10)}...` : 'NO KEY'}`);
+      console.log(`${this.logPrefix} Model: ${options.model}, Messages length: ${messages.length}`);
 
-      const timeoutId = setTimeout(() => {
-        console.error(`[OpenRouter] fetchCompletion timeout after 30s for request ${requestId} - aborting`);
-        controller.abort();
-      }, 30000);
-
-      const response = await fetch(`${this.baseUrl}/chat/completions`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(body),
-        signal: controller.signal,
-      });
+      const body = this.buildRequestBody(messages, options, false);
 
-      clearTimeout(timeoutId);
-
-      console.log(`[OpenRouter] fetchCompletion response status: ${response.status} for request ${requestId}`);
+      const response = await this.postWithRetry(body, options, requestId, controller);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`[OpenRouter] API error ${response.status}: ${errorText} for request ${requestId}`);
-        throw new Error(`OpenRouter API error: ${response.status} ${errorText}`);
-      }
+      console.log(`${this.logPrefix} fetchCompletion response status: ${response.status} for request ${requestId}`);
 
       const data: any = await response.json();
+      if (data?.error) {
+        throw this.classifyBodyError(data.error, options.model);
+      }
+      const usage = normalizeUsage(data?.usage);
+      if (usage && options.onUsage) {
+        options.onUsage(usage);
+      }
       const combinedContent = Array.isArray(data?.choices)
         ? data.choices
             .map((choice: any) => choice?.message?.content ?? '')
@@ -245,23 +251,187 @@ export class OpenRouterAdapter extends BaseLLMAdapter {
             .trim()
         : '';
       console.log(
-        `[OpenRouter] fetchCompletion completed for request ${requestId}, content length: ${combinedContent.length}`
+        `${this.logPrefix} fetchCompletion completed for request ${requestId}, content length: ${combinedContent.length}`
       );
-      return combinedContent;
-    } catch (error: any) {
-      console.error(`[OpenRouter] fetchCompletion error for request ${requestId}:`, error);
-      if (error.name === 'AbortError' || error.message.includes('aborted')) {
-        console.log(`Request ${requestId} was cancelled`);
-        return '';
+      if (combinedContent.length === 0 && data?.choices?.some((choice: any) => choice?.finish_reason === 'content_filter')) {
+        throw new LLMContentFilteredError(`${this.providerName} response was blocked by the content filter`, { model: options.model });
+      }
+      if (combinedContent.length > 0) {
+        modelHealthService.recordSuccess(options.model);
       } else {
-        // On error, return empty string so callers always get a string
-        return '';
+        modelHealthService.recordFailure(options.model, 'error', 'empty response');
       }
+      // '' means the call succeeded but the model answered nothing; failed calls throw an LLMError
+      return combinedContent;
+    } catch (error: any) {
+      console.error(`${this.logPrefix} fetchCompletion error for request ${requestId}:`, error);
+      const llmError = this.toLLMError(error, options.model, requestId);
+      this.recordHealthFailure(options.model, llmError);
+      throw llmError;
     } finally {
       this.activeRequests.delete(requestId);
     }
   }
 
+  /**
+   * Build the /chat/completions body from LLMOptions (unset controls are left to the provider defaults)
+   */
+  protected buildRequestBody(messages: LLMMessage[], options: LLMOptions, stream: boolean): any {
+    const body: any = {
+      model: options.model,
+      messages,
+      stream,
+      max_tokens: options.maxTokens ?? 1000,
+    };
+    if (stream) {
+      // Ask for a trailing usage chunk (OpenAI-compatible servers send it with empty choices)
+      body.stream_options = { include_usage: true };
+    }
+    if (typeof options.temperature === 'number') {
+      body.temperature = options.temperature;
+    }
+    if (typeof options.topP === 'number') {
+      body.top_p = options.topP;
+    }
+    if (options.stop && options.stop.length > 0) {
+      body.stop = options.stop;
+    }
+    if (typeof options.seed === 'number') {
+      body.seed = options.seed;
+    }
+    if (typeof options.frequencyPenalty === 'number') {
+      body.frequency_penalty = options.frequencyPenalty;
+    }
+    if (typeof options.presencePenalty === 'number') {
+      body.presence_penalty = options.presencePenalty;
+    }
+    if (options.tools && options.tools.length > 0) {
+      body.tools = options.tools;
+      body.tool_choice = options.toolChoice ?? 'auto';
+    }
+    // Prefers json_schema if provided, otherwise allow a raw response_format
+    if (options.jsonSchema) {
+      body.response_format = { type: 'json_schema', json_schema: options.jsonSchema };
+    } else if (options.responseFormat) {
+      body.response_format = options.responseFormat;
+    }
+    return body;
+  }
+
+  /**
+   * POST /chat/completions, retrying rate limits (honouring Retry-After), 5xx and network failures.
+   * The request timeout covers all attempts; a retry that would not finish before it is not attempted.
+   */
+  protected async postWithRetry(
+    body: any,
+    options: LLMOptions,
+    requestId: string,
+    controller: AbortController
+  ): Promise<Response> {
+    const timeoutMs = options.timeout ?? this.timeout;
+    const deadline = Date.now() + timeoutMs;
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      console.error(`${this.logPrefix} Request ${requestId} timeout after ${timeoutMs}ms - aborting`);
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abortError = () => timedOut
+      ? new LLMTimeoutError(`${this.providerName} request timed out after ${timeoutMs}ms`, { model: options.model })
+      : new LLMCancelledError(requestId, { model: options.model });
+
+    try {
+      for (let attempt = 0; ; attempt++) {
+        let error: LLMError;
+        try {
+          const response = await fetch(`${this.baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+              'Authorization': `Bearer ${this.apiKey}`,
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(body),
+            signal: controller.signal,
+          });
+          if (response.ok) return response;
+
+          const errorText = await response.text();
+          console.error(`${this.logPrefix} API error ${response.status}: ${errorText} for request ${requestId}`);
+          error = classifyHttpError(response.status, errorText, {
+            model: options.model,
+            retryAfterHeader: response.headers.get('retry-after'),
+            provider: this.providerName
+          });
+        } catch (fetchError: any) {
+          if (controller.signal.aborted) throw abortError();
+          error = this.toLLMError(fetchError, options.model, requestId);
+        }
+
+        const delay = this.retryDelay(error, attempt);
+        if (delay === undefined || Date.now() + delay >= deadline) throw error;
+
+        // Only retried failures are recorded here; the final one is recorded by the caller
+        this.recordHealthFailure(options.model, error);
+        console.warn(`🔁 ${this.logPrefix} ${error.kind} for request ${requestId}, retry ${attempt + 1}/${MAX_RETRIES} in ${delay}ms`);
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, delay);
+          controller.signal.addEventListener('abort', () => { clearTimeout(timer); resolve(); }, { once: true });
+        });
+        if (controller.signal.aborted) throw abortError();
+      }
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Delay before the next attempt, or undefined when the error should be surfaced
+   */
+  private retryDelay(error: LLMError, attempt: number): number | undefined {
+    if (!error.retryable || attempt >= MAX_RETRIES) return undefined;
+    if (error.retryAfterMs !== undefined) {
+      return error.retryAfterMs <= RETRY_MAX_DELAY_MS ? error.retryAfterMs : undefined;
+    }
+    const backoff = RETRY_BASE_DELAY_MS * 2 ** attempt;
+    return Math.min(RETRY_MAX_DELAY_MS, backoff + Math.floor(Math.random() * RETRY_BASE_DELAY_MS));
+  }
+
+  /**
+   * Map an in-body provider error ({ code, message, metadata }) to a typed error
+   */
+  private classifyBodyError(bodyError: any, model: string): LLMError {
+    const code = Number(bodyError?.code);
+    return classifyHttpError(Number.isFinite(code) && code >= 400 ? code : 502, JSON.stringify(bodyError), {
+      model,
+      provider: this.providerName
+    });
+  }
+
+  private toLLMError(error: any, model: string, requestId: string): LLMError {
+    if (error instanceof LLMError) return error;
+    if (error?.name === 'AbortError' || String(error?.message || '').includes('aborted')) {
+      return new LLMCancelledError(requestId, { model, cause: error });
+    }
+    return new LLMUpstreamError(`${this.providerName} request failed: ${error?.message || error}`, { model, cause: error });
+  }
+
+  private get providerName(): string {
+    return this.logPrefix.replace(/[\[\]]/g, '');
+  }
+
+  /**
+   * Feed a failed request into the model circuit breaker (cancellations and client-side errors are ignored)
+   */
+  private recordHealthFailure(model: string, error: LLMError): void {
+    if (error.kind === 'rate_limited') {
+      modelHealthService.recordFailure(model, 'rate_limited', error.message);
+    } else if (error.kind === 'timeout') {
+      modelHealthService.recordFailure(model, 'timeout', error.message);
+    } else if (error.kind === 'upstream' || error.kind === 'network') {
+      modelHealthService.recordFailure(model, 'error', error.message);
+    }
+  }
+
   async cancel(requestId: string): Promise<void> {
     const controller = this.activeRequests.get(requestId);
     const streamResources = this.activeStreams.get(requestId);
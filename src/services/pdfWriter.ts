@@ -0,0 +1,249 @@
+import { deflateSync } from 'zlib';
+
+export interface PdfTextOptions {
+  size?: number;                    // font size in points (default 10)
+  bold?: boolean;
+  color?: [number, number, number]; // RGB, 0-1
+  indent?: number;                  // left indent in points
+  spaceBefore?: number;
+  spaceAfter?: number;
+}
+
+interface PdfPage {
+  ops: string[];
+}
+
+// Advance widths (1/1000 em) of the standard Helvetica fonts for ASCII 32-126 (Adobe AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsiEncoding code points outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89,
+  'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95,
+  '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f
+};
+
+/**
+ * Minimal PDF builder for text documents: the built-in Helvetica fonts (WinAnsi, so Spanish
+ * accents and ¿¡ render; other characters become "?"), word wrapping, automatic page breaks
+ * and an optional footer with page numbers. No external service or font files.
+ */
+export class PdfWriter {
+  private pages: PdfPage[] = [];
+  private y = 0;
+  private footer = '';
+  private readonly pageWidth: number;
+  private readonly pageHeight: number;
+  private readonly margin: number;
+
+  constructor(options: { pageWidth?: number; pageHeight?: number; margin?: number } = {}) {
+    // A4 by default
+    this.pageWidth = options.pageWidth ?? 595;
+    this.pageHeight = options.pageHeight ?? 842;
+    this.margin = options.margin ?? 50;
+    this.addPage();
+  }
+
+  /**
+   * Add a block of text; newlines start new lines and long lines wrap to the page width
+   */
+  addText(text: string, options: PdfTextOptions = {}): void {
+    const size = options.size ?? 10;
+    const indent = options.indent ?? 0;
+    const lineHeight = size * 1.35;
+    const maxWidth = this.pageWidth - this.margin * 2 - indent;
+    const font = options.bold ? 'F2' : 'F1';
+
+    this.y -= options.spaceBefore ?? 0;
+    const lines = text
+      .replace(/\t/g, '    ')
+      .split(/\r?\n/)
+      .flatMap(line => this.wrap(line, size, maxWidth, !!options.bold));
+
+    for (const line of lines) {
+      if (this.y - lineHeight < this.margin) this.addPage();
+      this.y -= lineHeight;
+      if (!line) continue;
+      const [r, g, b] = options.color ?? [0, 0, 0];
+      this.currentPage().ops.push(
+        `BT /${font} ${size} Tf ${this.num(r)} ${this.num(g)} ${this.num(b)} rg ${this.num(this.margin + indent)} ${this.num(this.y)} Td (${this.encode(line)}) Tj ET`
+      );
+    }
+    this.y -= options.spaceAfter ?? 0;
+  }
+
+  /**
+   * Thin horizontal line across the text area
+   */
+  addRule(spacing: number = 8): void {
+    if (this.y - spacing * 2 < this.margin) {
+      this.addPage();
+      return;
+    }
+    this.y -= spacing;
+    this.currentPage().ops.push(
+      `0.8 0.8 0.8 RG 0.5 w ${this.margin} ${this.num(this.y)} m ${this.pageWidth - this.margin} ${this.num(this.y)} l S`
+    );
+    this.y -= spacing;
+  }
+
+  /**
+   * Footer text drawn on every page, followed by "page / total"
+   */
+  setFooter(text: string): void {
+    this.footer = text;
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const addObject = (body: string | Buffer): number => {
+      objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+      return objects.length;
+    };
+
+    // Fixed ids: 1 catalog, 2 page tree, 3-4 fonts; pages and their content streams follow
+    addObject('<< /Type /Catalog /Pages 2 0 R >>');
+    addObject(''); // page tree, filled in once the page ids are known
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    addObject('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+    const pageIds: number[] = [];
+    this.pages.forEach((page, index) => {
+      const ops = [...page.ops];
+      if (this.footer || this.pages.length > 1) {
+        const label = `${this.footer ? `${this.footer}  ·  ` : ''}${index + 1} / ${this.pages.length}`;
+        ops.push(`BT /F1 8 Tf 0.5 0.5 0.5 rg ${this.margin} ${this.num(this.margin / 2)} Td (${this.encode(this.truncate(label, 8, this.pageWidth - this.margin * 2))}) Tj ET`);
+      }
+      const stream = deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+      const contentId = addObject(Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1')
+      ]));
+      pageIds.push(addObject(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${this.pageWidth} ${this.pageHeight}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+      ));
+    });
+    objects[1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+
+    const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+    const offsets: number[] = [];
+    let offset = chunks[0].length;
+    objects.forEach((body, index) => {
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, 'latin1'),
+        body,
+        Buffer.from('\nendobj\n', 'latin1')
+      ]);
+      offsets.push(offset);
+      offset += chunk.length;
+      chunks.push(chunk);
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(value => `${String(value).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+      'startxref',
+      String(offset),
+      '%%EOF'
+    ].join('\n');
+    chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+    return Buffer.concat(chunks);
+  }
+
+  private addPage(): void {
+    this.pages.push({ ops: [] });
+    this.y = this.pageHeight - this.margin;
+  }
+
+  private currentPage(): PdfPage {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private wrap(line: string, size: number, maxWidth: number, bold: boolean): string[] {
+    if (this.textWidth(line, size, bold) <= maxWidth) return [line];
+
+    const result: string[] = [];
+    let current = '';
+    for (const word of line.split(/(\s+)/)) {
+      const candidate = current + word;
+      if (this.textWidth(candidate, size, bold) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current.trim()) result.push(current.trimEnd());
+      current = word.trim() ? word : '';
+      // Words longer than a line are split by character
+      while (this.textWidth(current, size, bold) > maxWidth) {
+        let cut = current.length - 1;
+        while (cut > 1 && this.textWidth(current.slice(0, cut), size, bold) > maxWidth) cut--;
+        result.push(current.slice(0, cut));
+        current = current.slice(cut);
+      }
+    }
+    if (current.trim()) result.push(current.trimEnd());
+    return result;
+  }
+
+  private truncate(text: string, size: number, maxWidth: number): string {
+    if (this.textWidth(text, size, false) <= maxWidth) return text;
+    let cut = text.length;
+    while (cut > 0 && this.textWidth(`${text.slice(0, cut)}...`, size, false) > maxWidth) cut--;
+    return `${text.slice(0, cut)}...`;
+  }
+
+  private textWidth(text: string, size: number, bold: boolean): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    let total = 0;
+    for (const char of text) {
+      // Accented letters are as wide as their base letter
+      const code = char.normalize('NFD').charCodeAt(0);
+      total += code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH;
+    }
+    return (total * size) / 1000;
+  }
+
+  /**
+   * PDF literal string body in WinAnsiEncoding
+   */
+  private encode(text: string): string {
+    let out = '';
+    for (const char of text) {
+      const code = char.codePointAt(0) as number;
+      const byte = (code >= 32 && code <= 126) || (code >= 160 && code <= 255) ? code : WIN_ANSI_EXTRAS[char] ?? 63;
+      if (byte === 40 || byte === 41 || byte === 92) {
+        out += `\\${String.fromCharCode(byte)}`;
+      } else if (byte > 126) {
+        out += `\\${byte.toString(8).padStart(3, '0')}`;
+      } else {
+        out += String.fromCharCode(byte);
+      }
+    }
+    return out;
+  }
+
+  private num(value: number): string {
+    return Number(value.toFixed(2)).toString();
+  }
+}
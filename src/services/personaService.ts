@@ -1,9 +1,10 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { Persona } from '../types';
+import { Persona, PersonaLexicon } from '../types';
 
 class PersonaService {
   private personas: Map<string, Persona> = new Map();
+  private lexicons: Map<string, PersonaLexicon> = new Map();
   private manifest: Persona[] = [];
 
   constructor() {
@@ -92,6 +93,7 @@ class PersonaService {
             const persona: Persona = JSON.parse(personaData);
             this.personas.set(persona.country_key, persona);
             console.log('✅ Loaded persona:', persona.country_key, '-', persona.displayName);
+            this.loadLexicon(personasDir, persona.country_key);
           } else {
             console.error('❌ Persona file not found:', personaPath);
             console.log('📂 Available files:', fs.readdirSync(personasDir));
@@ -105,6 +107,39 @@ class PersonaService {
     }
   }
 
+  /**
+   * Optional lexicon next to the persona file; a missing or malformed one only disables the lexicon checks
+   */
+  private loadLexicon(personasDir: string, countryKey: string): void {
+    const lexiconPath = path.join(personasDir, 'lexicons', `${countryKey}.json`);
+    if (!fs.existsSync(lexiconPath)) {
+      console.log('ℹ️ No lexicon for persona:', countryKey);
+      return;
+    }
+
+    try {
+      const raw = JSON.parse(fs.readFileSync(lexiconPath, 'utf-8'));
+      const terms = (value: unknown): string[] =>
+        Array.isArray(value) ? value.filter((term): term is string => typeof term === 'string' && term.trim() !== '') : [];
+      const followUps: Record<string, string[]> = {};
+      if (raw.follow_ups && typeof raw.follow_ups === 'object') {
+        for (const [formality, phrases] of Object.entries(raw.follow_ups)) {
+          if (terms(phrases).length > 0) followUps[formality] = terms(phrases);
+        }
+      }
+      this.lexicons.set(countryKey, {
+        country_key: countryKey,
+        pronoun: typeof raw.pronoun === 'string' ? raw.pronoun : undefined,
+        slang: terms(raw.slang),
+        follow_ups: followUps,
+        banned_terms: terms(raw.banned_terms)
+      });
+      console.log('✅ Loaded lexicon:', countryKey);
+    } catch (error) {
+      console.error('❌ Invalid lexicon file:', lexiconPath, error);
+    }
+  }
+
   getPersona(countryKey: string): Persona | null {
     return this.personas.get(countryKey) || null;
   }
@@ -117,12 +152,17 @@ class PersonaService {
     return this.manifest.filter(p => p.safe_reviewed);
   }
 
+  getLexicon(countryKey: string): PersonaLexicon | null {
+    return this.lexicons.get(countryKey) || null;
+  }
+
   isValidCountryKey(countryKey: string): boolean {
     return this.personas.has(countryKey);
   }
 
   reloadPersonas(): void {
     this.personas.clear();
+    this.lexicons.clear();
     this.loadPersonas();
   }
 }
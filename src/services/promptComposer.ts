@@ -0,0 +1,40 @@
+import { InstructionLayers } from './customInstructionsService';
+import { formalityService } from './formalityService';
+import { Formality, Persona } from '../types';
+
+export interface PromptCompositionInput {
+  persona: Persona;
+  formality?: Formality | null; // null/undefined = the persona's default pronoun
+  instructions?: InstructionLayers;
+}
+
+/**
+ * Builds the system prompt for a chat turn. Order is fixed:
+ * 1. persona.prompt_text (character, dialect, safety rules)
+ * 2. the formality directive (tú / usted / vos / mixed), overriding the persona's pronoun
+ * 3. the user's default custom instructions
+ * 4. this conversation's custom instructions (most specific, wins over the defaults)
+ */
+export class PromptComposer {
+  compose(input: PromptCompositionInput): string {
+    const formality = formalityService.resolve(input.formality, input.persona.country_key);
+    const sections: string[] = [input.persona.prompt_text.trim(), formalityService.getPromptDirective(formality)];
+
+    const defaults = input.instructions?.defaults?.content.trim();
+    const conversation = input.instructions?.conversation?.content.trim();
+    if (defaults || conversation) {
+      const lines = [
+        "## The user's custom instructions",
+        'Follow these while staying in character. If they conflict, the conversation instructions win over the general preferences.'
+      ];
+      if (defaults) lines.push('', 'General preferences:', defaults);
+      if (conversation) lines.push('', 'For this conversation:', conversation);
+      sections.push(lines.join('\n'));
+    }
+
+    return sections.join('\n\n');
+  }
+}
+
+// Export singleton instance
+export const promptComposer = new PromptComposer();
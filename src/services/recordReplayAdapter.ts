@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { ILLMAdapter } from './llmAdapter';
+import { LLMError, LLMErrorKind } from './llmErrors';
+import { LLMMessage, DeltaChunk, LLMOptions, TokenUsage } from '../types';
+
+/**
+ * record: always call the wrapped adapter and (over)write cassettes
+ * replay: never touch the network; missing cassettes are an error
+ * auto:   replay when a cassette exists, otherwise record it
+ */
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface RecordReplayOptions {
+  mode: CassetteMode;
+  cassetteDir: string;
+  // Multiplier applied to recorded chunk delays on replay (1 = original timing, 0 = instant)
+  timingScale?: number;
+}
+
+interface RecordedChunk {
+  delayMs: number;
+  chunk: DeltaChunk;
+}
+
+interface Cassette {
+  version: 1;
+  key: string;
+  kind: 'stream' | 'fetch';
+  recorded_at: string;
+  request: {
+    model: string;
+    messages: LLMMessage[];
+    options: Record<string, any>;
+  };
+  chunks?: RecordedChunk[];
+  response?: string;
+  usage?: TokenUsage; // reported through LLMOptions.onUsage by fetchCompletion
+  error?: RecordedError;
+}
+
+interface RecordedError {
+  name: string;
+  message: string;
+  // Typed LLMError fields so replays fail the same way
+  kind?: LLMErrorKind;
+  status?: number;
+  retryAfterMs?: number;
+}
+
+// Options that vary per call without changing the exchange itself
+const VOLATILE_OPTION_KEYS = new Set(['requestId', 'timeout']);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * ILLMAdapter decorator that records real exchanges to JSON cassettes and replays them
+ * byte-for-byte (chunk text, chunk timing, meta such as usage, and thrown errors).
+ * Cassettes are keyed by a hash of the messages and the request-shaping options.
+ */
+export class RecordReplayAdapter implements ILLMAdapter {
+  private inner: ILLMAdapter | null;
+  private mode: CassetteMode;
+  private cassetteDir: string;
+  private timingScale: number;
+  // Request ids of replays in progress; true once cancelled
+  private activeReplays: Map<string, boolean> = new Map();
+  // Live requests being recorded; a cancelled one is not saved (its stream ends early without an error)
+  private activeRecordings: Map<string, { cancelled: boolean }> = new Map();
+
+  constructor(inner: ILLMAdapter | null, options: RecordReplayOptions) {
+    this.inner = inner;
+    this.mode = options.mode;
+    this.cassetteDir = options.cassetteDir;
+    this.timingScale = options.timingScale ?? 1;
+
+    if (this.mode !== 'replay' && !this.inner) {
+      throw new Error(`RecordReplayAdapter in "${this.mode}" mode requires an adapter to record from`);
+    }
+  }
+
+  async *streamCompletion(
+    messages: LLMMessage[],
+    options: LLMOptions
+  ): AsyncIterable<DeltaChunk> {
+    const key = this.cassetteKey('stream', messages, options);
+    const cassette = this.mode === 'record' ? null : this.loadCassette(key);
+
+    if (cassette) {
+      console.log(`📼 [RecordReplay] Replaying stream cassette ${key.slice(0, 16)} (${cassette.chunks?.length ?? 0} chunks)`);
+      yield* this.replayStream(cassette, options.requestId);
+      return;
+    }
+    this.assertCanRecord(key);
+
+    console.log(`⏺️ [RecordReplay] Recording stream cassette ${key.slice(0, 16)} for model ${options.model}`);
+    const chunks: RecordedChunk[] = [];
+    let lastChunkAt = Date.now();
+    const recording = this.startRecording(options.requestId);
+    try {
+      for await (const chunk of this.inner!.streamCompletion(messages, options)) {
+        const now = Date.now();
+        chunks.push({ delayMs: now - lastChunkAt, chunk: JSON.parse(JSON.stringify(chunk)) });
+        lastChunkAt = now;
+        yield chunk;
+      }
+      if (recording.cancelled || !chunks[chunks.length - 1]?.chunk.isFinal) {
+        console.log(`⏺️ [RecordReplay] Not saving stream cassette ${key.slice(0, 16)}: ${recording.cancelled ? 'cancelled' : 'no final chunk'}`);
+      } else {
+        this.saveCassette({ ...this.baseCassette(key, 'stream', messages, options), chunks });
+      }
+    } catch (error: any) {
+      if (this.shouldRecordError(error, recording)) {
+        this.saveCassette({ ...this.baseCassette(key, 'stream', messages, options), chunks, error: this.serializeError(error) });
+      }
+      throw error;
+    } finally {
+      this.finishRecording(options.requestId, recording);
+    }
+  }
+
+  async fetchCompletion(
+    messages: LLMMessage[],
+    options: LLMOptions
+  ): Promise<string> {
+    const key = this.cassetteKey('fetch', messages, options);
+    const cassette = this.mode === 'record' ? null : this.loadCassette(key);
+
+    if (cassette) {
+      console.log(`📼 [RecordReplay] Replaying fetch cassette ${key.slice(0, 16)}`);
+      if (cassette.usage && options.onUsage) options.onUsage(cassette.usage);
+      if (cassette.error) throw this.deserializeError(cassette.error);
+      return cassette.response ?? '';
+    }
+    this.assertCanRecord(key);
+
+    console.log(`⏺️ [RecordReplay] Recording fetch cassette ${key.slice(0, 16)} for model ${options.model}`);
+    let usage: TokenUsage | undefined;
+    const recordingOptions: LLMOptions = {
+      ...options,
+      onUsage: (reported) => {
+        usage = reported;
+        options.onUsage?.(reported);
+      }
+    };
+    const recording = this.startRecording(options.requestId);
+    try {
+      const response = await this.inner!.fetchCompletion(messages, recordingOptions);
+      if (!recording.cancelled) {
+        this.saveCassette({ ...this.baseCassette(key, 'fetch', messages, options), response, usage });
+      }
+      return response;
+    } catch (error: any) {
+      if (this.shouldRecordError(error, recording)) {
+        this.saveCassette({ ...this.baseCassette(key, 'fetch', messages, options), error: this.serializeError(error) });
+      }
+      throw error;
+    } finally {
+      this.finishRecording(options.requestId, recording);
+    }
+  }
+
+  async cancel(requestId: string): Promise<void> {
+    if (this.activeReplays.has(requestId)) {
+      this.activeReplays.set(requestId, true);
+    }
+    const recording = this.activeRecordings.get(requestId);
+    if (recording) recording.cancelled = true;
+    if (this.inner) {
+      await this.inner.cancel(requestId);
+    }
+  }
+
+  isReady(): boolean {
+    if (this.mode === 'replay') return true;
+    return !!this.inner && this.inner.isReady();
+  }
+
+  private async *replayStream(cassette: Cassette, requestId?: string): AsyncIterable<DeltaChunk> {
+    if (requestId) this.activeReplays.set(requestId, false);
+    try {
+      for (const { delayMs, chunk } of cassette.chunks || []) {
+        if (delayMs > 0 && this.timingScale > 0) {
+          await sleep(delayMs * this.timingScale);
+        }
+        if (requestId && this.activeReplays.get(requestId)) {
+          console.log(`📼 [RecordReplay] Replay ${requestId} was cancelled`);
+          return;
+        }
+        yield chunk;
+      }
+      if (cassette.error) {
+        throw this.deserializeError(cassette.error);
+      }
+    } finally {
+      if (requestId) this.activeReplays.delete(requestId);
+    }
+  }
+
+  private startRecording(requestId?: string): { cancelled: boolean } {
+    const recording = { cancelled: false };
+    if (requestId) this.activeRecordings.set(requestId, recording);
+    return recording;
+  }
+
+  private finishRecording(requestId: string | undefined, recording: { cancelled: boolean }): void {
+    if (requestId && this.activeRecordings.get(requestId) === recording) {
+      this.activeRecordings.delete(requestId);
+    }
+  }
+
+  /**
+   * Cancellations are never recorded; in auto mode neither are transient failures (429, 5xx, network,
+   * timeouts), which would otherwise be replayed for every later identical request
+   */
+  private shouldRecordError(error: any, recording: { cancelled: boolean }): boolean {
+    if (recording.cancelled) return false;
+    if (!(error instanceof LLMError)) return true;
+    if (error.kind === 'cancelled') return false;
+    return this.mode === 'record' || !(error.retryable || error.kind === 'timeout');
+  }
+
+  private assertCanRecord(key: string): void {
+    if (this.mode === 'replay') {
+      throw new Error(`No cassette recorded for request ${key.slice(0, 16)} in ${this.cassetteDir}`);
+    }
+  }
+
+  private cassetteKey(kind: Cassette['kind'], messages: LLMMessage[], options: LLMOptions): string {
+    return createHash('sha256')
+      .update(JSON.stringify({ kind, messages, options: this.requestShapingOptions(options) }))
+      .digest('hex');
+  }
+
+  private requestShapingOptions(options: LLMOptions): Record<string, any> {
+    const shaped: Record<string, any> = {};
+    for (const key of Object.keys(options).sort()) {
+      const value = (options as any)[key];
+      if (VOLATILE_OPTION_KEYS.has(key) || value === undefined || typeof value === 'function') continue;
+      shaped[key] = value;
+    }
+    return shaped;
+  }
+
+  private baseCassette(key: string, kind: Cassette['kind'], messages: LLMMessage[], options: LLMOptions): Cassette {
+    return {
+      version: 1,
+      key,
+      kind,
+      recorded_at: new Date().toISOString(),
+      request: { model: options.model, messages, options: this.requestShapingOptions(options) }
+    };
+  }
+
+  private cassettePath(key: string): string {
+    return path.join(this.cassetteDir, `${key.slice(0, 32)}.json`);
+  }
+
+  private loadCassette(key: string): Cassette | null {
+    const file = this.cassettePath(key);
+    if (!fs.existsSync(file)) return null;
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as Cassette;
+    } catch (error) {
+      console.error(`❌ [RecordReplay] Failed to read cassette ${file}:`, error);
+      return null;
+    }
+  }
+
+  private saveCassette(cassette: Cassette): void {
+    try {
+      fs.mkdirSync(this.cassetteDir, { recursive: true });
+      fs.writeFileSync(this.cassettePath(cassette.key), JSON.stringify(cassette, null, 2));
+    } catch (error) {
+      // Recording is best-effort; never break the live request
+      console.error('❌ [RecordReplay] Failed to write cassette:', error);
+    }
+  }
+
+  private serializeError(error: any): RecordedError {
+    const recorded: RecordedError = { name: error?.name || 'Error', message: error?.message || String(error) };
+    if (error instanceof LLMError) {
+      recorded.kind = error.kind;
+      recorded.status = error.status;
+      recorded.retryAfterMs = error.retryAfterMs;
+    }
+    return recorded;
+  }
+
+  private deserializeError(recorded: RecordedError): Error {
+    const error = recorded.kind
+      ? new LLMError(recorded.kind, recorded.message, { status: recorded.status, retryAfterMs: recorded.retryAfterMs })
+      : new Error(recorded.message);
+    error.name = recorded.name;
+    return error;
+  }
+}
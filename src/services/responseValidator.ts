@@ -0,0 +1,110 @@
+import { formalityService } from './formalityService';
+import { lexiconService } from './lexiconService';
+import { Formality } from '../types';
+
+export interface ResponseValidation {
+  isValid: boolean;
+  score: number;
+  issues: string[];
+}
+
+export interface ResponseValidationContext {
+  countryKey: string;
+  formality: Formality;
+}
+
+// What to tell the model for each failed check when asking for a better reply
+const CORRECTIONS: Array<{ match: RegExp; instruction: string }> = [
+  { match: /too short|meaningful content/i, instruction: 'Write 2-3 full, natural sentences.' },
+  { match: /another region/i, instruction: "Drop slang from other countries; use only your region's words." },
+  { match: /repetition/i, instruction: 'Do not repeat words or phrases.' },
+  { match: /usted|tú|voseo|vos/i, instruction: 'Address the user exactly as the «Trato» section of your instructions says.' }
+];
+
+/**
+ * Scores persona replies: length, meaningful content, engagement, regional slang from the
+ * persona's lexicon, repetition and the pronoun register. Used to decide on a regenerate.
+ */
+export class ResponseValidator {
+  validate(response: string, context: ResponseValidationContext): ResponseValidation {
+    const issues: string[] = [];
+    let score = 0;
+
+    // Minimum length check (15+ characters)
+    if (response.trim().length < 15) {
+      issues.push('Response too short');
+      score -= 2;
+    } else {
+      score += 1;
+    }
+
+    // Checks for meaningful content (not just punctuation or single words)
+    const meaningfulWords = response.trim().split(/\s+/).filter(word => word.length > 2);
+    if (meaningfulWords.length < 2) {
+      issues.push('Insufficient meaningful content');
+      score -= 1;
+    } else {
+      score += 1;
+    }
+
+    // Check for engagement indicators (questions, conversation starters)
+    const hasQuestion = /[¿?]\s*[A-Za-zÀ-ÿ]/.test(response);
+    const hasEngagement = /\b(qué|como|cuándo|dónde|por qué|cuál|quién)\b/i.test(response);
+    if (hasQuestion || hasEngagement) {
+      score += 2;
+    }
+
+    // Regional slang from the persona's lexicon; other regions' slang breaks character.
+    // Missing slang only lowers the score (never triggers a regenerate), and is expected with usted.
+    const lexicon = lexiconService.checkResponse(response, context.countryKey);
+    if (lexicon.slang.length > 0) {
+      score += 1;
+    } else if (lexicon.missingSlang && context.formality !== 'usted') {
+      score -= 1;
+    }
+    if (lexicon.issues.length > 0) {
+      issues.push(...lexicon.issues);
+      score -= lexicon.issues.length;
+    }
+
+    // Check for repetitive patterns
+    const words = response.toLowerCase().split(/\s+/);
+    const uniqueWords = new Set(words);
+    const repetitionRatio = uniqueWords.size / words.length;
+    if (repetitionRatio < 0.6) {
+      issues.push('High repetition detected');
+      score -= 1;
+    }
+
+    // Check the pronoun register (tú / usted / vos) against the conversation's formality
+    const formalityIssues = formalityService.checkResponse(response, context.formality);
+    if (formalityIssues.length > 0) {
+      issues.push(...formalityIssues);
+      score -= formalityIssues.length;
+    }
+
+    return {
+      isValid: score >= 0 && issues.length === 0,
+      score,
+      issues
+    };
+  }
+
+  /**
+   * Instruction asking the model to rewrite its previous reply without the given issues
+   */
+  buildCorrection(issues: string[]): string {
+    const instructions = Array.from(new Set(
+      CORRECTIONS.filter(correction => issues.some(issue => correction.match.test(issue))).map(correction => correction.instruction)
+    ));
+    return [
+      'Rewrite your previous reply to the user. Stay in character and answer the same message.',
+      `Problems to fix: ${issues.join('; ')}.`,
+      ...instructions,
+      'Reply only with the new message.'
+    ].join('\n');
+  }
+}
+
+// Export singleton instance
+export const responseValidator = new ResponseValidator();
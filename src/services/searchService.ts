@@ -1,15 +1,17 @@
-import { Conversation } from '../models/conversation';
+import { Conversation, ConversationFilters } from '../models/conversation';
 import { PrismaClient } from '@prisma/client';
+import { VISIBLE_CONVERSATION_FILTER, buildConversationWhere } from './conversationService';
 
 export class SearchService {
   private prisma = new PrismaClient();
   /**
    * Search conversations by title and content
    */
-  async searchConversations(userId: string, query: string): Promise<Conversation[]> {
+  async searchConversations(userId: string, query: string, filters: ConversationFilters = {}): Promise<Conversation[]> {
     const conversations = await this.prisma.conversation.findMany({
       where: {
-        user_id: userId,
+        ...buildConversationWhere(userId, filters),
+        ...VISIBLE_CONVERSATION_FILTER,
         OR: [
           { title: { contains: query, mode: 'insensitive' } },
           {
@@ -28,10 +30,13 @@ export class SearchService {
   /**
    * Search conversation messages
    */
-  async searchConversationMessages(userId: string, query: string): Promise<any[]> {
-    // Find messages matching content
+  async searchConversationMessages(userId: string, query: string, filters: ConversationFilters = {}): Promise<any[]> {
+    // Find messages matching content in conversations the user can see
     const messages = await this.prisma.conversationMessage.findMany({
-      where: { content: { contains: query, mode: 'insensitive' } },
+      where: {
+        content: { contains: query, mode: 'insensitive' },
+        conversation: { ...buildConversationWhere(userId, filters), ...VISIBLE_CONVERSATION_FILTER }
+      },
       orderBy: { created_at: 'desc' },
       take: 50,
       include: {
@@ -40,9 +45,7 @@ export class SearchService {
         }
       }
     });
-    // Filter by access (owner) since we don't join team permissions here
-    const filtered = messages.filter((m) => (m as any).conversation?.user_id === userId);
-    return filtered.map((m) => ({
+    return messages.map((m) => ({
       id: m.id,
       conversation_id: m.conversation_id,
       content: m.content,
@@ -54,9 +57,9 @@ export class SearchService {
   /**
    * Get recent conversations for user
    */
-  async getRecentConversations(userId: string, limit: number = 10): Promise<Conversation[]> {
+  async getRecentConversations(userId: string, limit: number = 10, filters: ConversationFilters = {}): Promise<Conversation[]> {
     const conversations = await this.prisma.conversation.findMany({
-      where: { user_id: userId },
+      where: { ...buildConversationWhere(userId, filters), ...VISIBLE_CONVERSATION_FILTER },
       orderBy: { updated_at: 'desc' },
       take: limit
     });
@@ -70,6 +73,7 @@ export class SearchService {
     const conversations = await this.prisma.conversation.findMany({
       where: {
         user_id: userId,
+        ...VISIBLE_CONVERSATION_FILTER,
         title: { contains: query, mode: 'insensitive' }
       },
       select: { title: true },
@@ -0,0 +1,252 @@
+import { z } from 'zod';
+import { jsonrepair } from 'jsonrepair';
+import { llmProviderRegistry } from './llmProviderRegistry';
+import { LLMMessage, LLMOptions, TokenUsage } from '../types';
+import { addUsage } from './tokenEstimator';
+
+/**
+ * How the JSON shape is communicated to the provider.
+ * json_schema: response_format with the schema derived from zod (best-effort; model support varies)
+ * json_object: response_format { type: 'json_object' } plus the schema in the prompt
+ * none:        prompt-only, for models/providers that reject response_format
+ */
+export type StructuredResponseMode = 'json_schema' | 'json_object' | 'none';
+
+export interface StructuredOutputRequest<T extends z.ZodTypeAny> {
+  schema: T;
+  schemaName: string;
+  messages: LLMMessage[];
+  model: string; // catalog id or raw slug, resolved through llmProviderRegistry
+  options?: Omit<LLMOptions, 'model' | 'responseFormat' | 'jsonSchema'>;
+  responseMode?: StructuredResponseMode;
+  // Re-prompts with the validation errors after the first attempt (default 1)
+  maxRepairAttempts?: number;
+  // Normalize the parsed JSON before validation (legacy shapes, field aliases)
+  preprocess?: (value: unknown) => unknown;
+}
+
+export interface StructuredOutputResult<T> {
+  data: T;
+  raw: string;
+  attempts: number;
+  repaired: boolean; // JSON needed jsonrepair / substring extraction
+  model: string;
+  usage?: TokenUsage;
+}
+
+export class StructuredOutputError extends Error {
+  readonly kind: 'empty' | 'parse' | 'validation';
+  readonly issues: string[];
+  readonly raw?: string;
+
+  constructor(kind: 'empty' | 'parse' | 'validation', message: string, issues: string[] = [], raw?: string) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.kind = kind;
+    this.issues = issues;
+    this.raw = raw;
+  }
+}
+
+const DEFAULT_REPAIR_ATTEMPTS = parseInt(process.env.STRUCTURED_OUTPUT_REPAIR_ATTEMPTS || '1');
+// Keep re-prompts small: the model only needs the first few problems
+const MAX_REPORTED_ISSUES = 8;
+
+/**
+ * "Ask the model for an object matching this zod schema":
+ * derives the JSON schema from zod, parses with jsonrepair fallbacks, validates,
+ * and re-prompts with the validation errors. Transport errors (LLMError) are not retried here.
+ */
+export class StructuredOutputService {
+  private metrics = {
+    requests: { count: 0, inc: () => this.metrics.requests.count++ },
+    successes: { count: 0, inc: () => this.metrics.successes.count++ },
+    failures: { count: 0, inc: () => this.metrics.failures.count++ },
+    emptyResponses: { count: 0, inc: () => this.metrics.emptyResponses.count++ },
+    jsonParseErrors: { count: 0, inc: () => this.metrics.jsonParseErrors.count++ },
+    jsonRepairSuccesses: { count: 0, inc: () => this.metrics.jsonRepairSuccesses.count++ },
+    jsonRepairFailures: { count: 0, inc: () => this.metrics.jsonRepairFailures.count++ },
+    validationErrors: { count: 0, inc: () => this.metrics.validationErrors.count++ },
+    reprompts: { count: 0, inc: () => this.metrics.reprompts.count++ },
+  };
+  private metricsBySchema: Map<string, { requests: number; successes: number; failures: number; reprompts: number }> = new Map();
+
+  async generate<T extends z.ZodTypeAny>(request: StructuredOutputRequest<T>): Promise<StructuredOutputResult<z.output<T>>> {
+    const mode = request.responseMode ?? 'json_schema';
+    const maxAttempts = 1 + Math.max(0, request.maxRepairAttempts ?? DEFAULT_REPAIR_ATTEMPTS);
+    const jsonSchema = this.toJsonSchema(request.schema, request.schemaName);
+    const schemaStats = this.getSchemaStats(request.schemaName);
+    this.metrics.requests.inc();
+    schemaStats.requests++;
+
+    const { adapter, model } = await llmProviderRegistry.resolve(request.model);
+    const options: LLMOptions = { ...request.options, model };
+    if (mode === 'json_schema') {
+      options.jsonSchema = jsonSchema;
+    } else if (mode === 'json_object') {
+      options.responseFormat = { type: 'json_object' };
+    }
+
+    let usage: TokenUsage | undefined;
+    const callerOnUsage = request.options?.onUsage;
+    options.onUsage = (reported) => {
+      usage = addUsage(usage, reported);
+      callerOnUsage?.(reported);
+    };
+
+    const messages: LLMMessage[] = [...request.messages];
+    let lastError: StructuredOutputError | undefined;
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      const raw = await adapter.fetchCompletion(messages, {
+        ...options,
+        requestId: options.requestId && attempt > 1 ? `${options.requestId}_repair${attempt - 1}` : options.requestId
+      });
+
+      try {
+        const { value, repaired } = this.parseJson(raw);
+        const candidate = request.preprocess ? request.preprocess(value) : value;
+        const validation = request.schema.safeParse(candidate);
+        if (!validation.success) {
+          this.metrics.validationErrors.inc();
+          throw new StructuredOutputError(
+            'validation',
+            `${request.schemaName} failed validation`,
+            this.formatIssues(validation.error),
+            raw
+          );
+        }
+
+        this.metrics.successes.inc();
+        schemaStats.successes++;
+        if (attempt > 1) {
+          console.log(`✅ [StructuredOutput] ${request.schemaName} valid after ${attempt} attempts on ${model}`);
+        }
+        return { data: validation.data, raw, attempts: attempt, repaired, model, usage };
+      } catch (error) {
+        if (!(error instanceof StructuredOutputError)) throw error;
+        lastError = error;
+        console.warn(`⚠️ [StructuredOutput] ${request.schemaName} attempt ${attempt}/${maxAttempts} on ${model} failed (${error.kind}):`, error.issues.slice(0, 3).join('; ') || error.message);
+      }
+
+      if (attempt < maxAttempts) {
+        this.metrics.reprompts.inc();
+        schemaStats.reprompts++;
+        if (lastError.kind !== 'empty') {
+          messages.push({ role: 'assistant', content: raw });
+        }
+        messages.push({ role: 'user', content: this.buildRepairPrompt(lastError, jsonSchema, mode) });
+      }
+    }
+
+    this.metrics.failures.inc();
+    schemaStats.failures++;
+    throw lastError as StructuredOutputError;
+  }
+
+  /**
+   * Parse model output as JSON: plain parse, then jsonrepair, then the largest {...} substring.
+   */
+  parseJson(raw: string): { value: unknown; repaired: boolean } {
+    if (!raw || typeof raw !== 'string' || !raw.trim()) {
+      this.metrics.emptyResponses.inc();
+      throw new StructuredOutputError('empty', 'Empty completion from provider', ['The reply was empty']);
+    }
+
+    try {
+      return { value: JSON.parse(raw), repaired: false };
+    } catch (initialError: any) {
+      this.metrics.jsonParseErrors.inc();
+      console.warn('[StructuredOutput] Initial JSON.parse failed:', initialError.message, '; attempting repairs with jsonrepair');
+    }
+
+    try {
+      const value = JSON.parse(jsonrepair(raw));
+      this.metrics.jsonRepairSuccesses.inc();
+      console.log('[StructuredOutput] jsonrepair successful');
+      return { value, repaired: true };
+    } catch (repairError: any) {
+      console.warn('[StructuredOutput] jsonrepair failed:', repairError.message, '; trying largest JSON substring fallback');
+    }
+
+    const largestSubstring = this.extractLargestJsonSubstring(raw);
+    if (largestSubstring) {
+      this.metrics.jsonRepairSuccesses.inc();
+      return { value: JSON.parse(largestSubstring), repaired: true };
+    }
+
+    this.metrics.jsonRepairFailures.inc();
+    console.error('[StructuredOutput] JSON parsing failed after all repair attempts. Original (truncated 2000 chars):', raw.slice(0, 2000));
+    throw new StructuredOutputError('parse', 'Failed to parse model JSON', ['The reply was not valid JSON'], raw);
+  }
+
+  /**
+   * JSON schema for response_format, derived from the zod schema
+   */
+  toJsonSchema(schema: z.ZodTypeAny, name: string): { name: string; schema: any; strict: boolean } {
+    let jsonSchema: any;
+    try {
+      jsonSchema = z.toJSONSchema(schema, { io: 'input', unrepresentable: 'any' });
+    } catch (error) {
+      console.warn(`⚠️ [StructuredOutput] Could not derive JSON schema for ${name}:`, error);
+      jsonSchema = { type: 'object' };
+    }
+    delete jsonSchema.$schema;
+    return { name, schema: jsonSchema, strict: false };
+  }
+
+  getMetrics() {
+    return {
+      requests: this.metrics.requests.count,
+      successes: this.metrics.successes.count,
+      failures: this.metrics.failures.count, // No valid object after all repair attempts
+      emptyResponses: this.metrics.emptyResponses.count,
+      jsonParseErrors: this.metrics.jsonParseErrors.count, // Initial JSON.parse failures
+      jsonRepairSuccesses: this.metrics.jsonRepairSuccesses.count,
+      jsonRepairFailures: this.metrics.jsonRepairFailures.count,
+      validationErrors: this.metrics.validationErrors.count, // Parsed but did not match the schema
+      reprompts: this.metrics.reprompts.count,
+      bySchema: Object.fromEntries(this.metricsBySchema)
+    };
+  }
+
+  private getSchemaStats(name: string) {
+    let stats = this.metricsBySchema.get(name);
+    if (!stats) {
+      stats = { requests: 0, successes: 0, failures: 0, reprompts: 0 };
+      this.metricsBySchema.set(name, stats);
+    }
+    return stats;
+  }
+
+  private formatIssues(error: z.ZodError): string[] {
+    return error.issues.slice(0, MAX_REPORTED_ISSUES).map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+  }
+
+  private buildRepairPrompt(error: StructuredOutputError, jsonSchema: { schema: any }, mode: StructuredResponseMode): string {
+    const problems = error.issues.map(issue => `- ${issue}`).join('\n');
+    // Providers enforcing json_schema already have the schema; prompt-only modes need it spelled out
+    const schemaHint = mode === 'json_schema' ? '' : `\nThe JSON must match this JSON Schema:\n${JSON.stringify(jsonSchema.schema)}\n`;
+    return `Your previous reply could not be used:\n${problems}\n${schemaHint}\nReply again with ONLY the corrected JSON object. No markdown code fences, no prose.`;
+  }
+
+  private extractLargestJsonSubstring(input: string): string | null {
+    // Remove any non-JSON content (e.g., code fences, markdown)
+    const cleaned = input.replace(/```json\s*|\s*```/g, '');
+    const matches = cleaned.match(/{[\s\S]*}/g);
+    if (!matches) return null;
+
+    for (const match of matches.sort((a, b) => b.length - a.length)) {
+      try {
+        JSON.parse(match);
+        return match;
+      } catch {
+        // Continue to the next largest substring
+      }
+    }
+    return null;
+  }
+}
+
+// Export singleton instance
+export const structuredOutputService = new StructuredOutputService();
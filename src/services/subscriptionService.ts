@@ -80,7 +80,7 @@ export class SubscriptionService {
   }
 
   /**
-   * Track message usage for user
+   * Track message usage for user (accumulates tokens for the current period)
    */
   async trackMessageUsage(userId: string, modelId: string, tokensUsed: number): Promise<void> {
     const period = new Date().toISOString().slice(0, 7); // YYYY-MM
@@ -94,8 +94,7 @@ export class SubscriptionService {
         }
       },
       update: {
-        tokens_used: tokensUsed,
-        created_at: new Date()
+        tokens_used: { increment: tokensUsed }
       },
       create: {
         user_id: userId,
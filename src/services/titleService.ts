@@ -0,0 +1,178 @@
+import { z } from 'zod';
+import { conversationService } from './conversationService';
+import { structuredOutputService } from './structuredOutputService';
+import { usageService } from './usageService';
+import { ConversationMessage } from '../models/conversation';
+import { PlanPriority, TokenUsage } from '../types';
+
+export interface TitleUpdate {
+  conversationId: string;
+  title: string;
+  title_source: 'generated';
+  reason: 'initial' | 'drift';
+}
+
+// Cheap model for titles; falls back to the default chat model
+const TITLE_MODEL = process.env.TITLE_MODEL || process.env.OPENROUTER_MODEL || 'gpt-4o-mini';
+// Messages since the last titling before checking whether the topic drifted (0 disables re-titling)
+const TITLE_REFRESH_MESSAGES = parseInt(process.env.TITLE_REFRESH_MESSAGES || '12');
+const MAX_TITLE_LENGTH = 60;
+// Turns sent to the model: the opening exchange for the first title, the latest turns for a refresh
+const INITIAL_TURNS = 4;
+const REFRESH_TURNS = 8;
+const MAX_TURN_CHARS = 500;
+
+const InitialTitleSchema = z.object({
+  title: z.string().min(1)
+});
+
+const RefreshTitleSchema = z.object({
+  topic_changed: z.boolean(),
+  title: z.string().optional()
+});
+
+/**
+ * Titles conversations from their content: a first title after the opening exchange,
+ * then a drift check every TITLE_REFRESH_MESSAGES messages. Titles the user edited are left alone.
+ */
+export class TitleService {
+  private inFlight: Set<string> = new Set();
+
+  /**
+   * Generate or refresh the title when due. Returns the new title, or null when nothing changed.
+   */
+  async maybeUpdateTitle(
+    conversationId: string,
+    options: { userId?: string; priority?: PlanPriority; requestId?: string } = {}
+  ): Promise<TitleUpdate | null> {
+    if (this.inFlight.has(conversationId)) return null;
+    this.inFlight.add(conversationId);
+
+    try {
+      const conversation = await conversationService.getConversation(conversationId);
+      if (!conversation || conversation.title_source === 'user') return null;
+
+      const messageCount = conversation.message_count;
+      const isInitial = conversation.title_source !== 'generated';
+      if (!isInitial && (TITLE_REFRESH_MESSAGES <= 0 || messageCount - (conversation.title_message_count ?? 0) < TITLE_REFRESH_MESSAGES)) {
+        return null;
+      }
+
+      const messages = await conversationService.getConversationMessages(conversationId);
+      if (!messages.some(msg => msg.role === 'user')) return null;
+
+      const startTime = Date.now();
+      const title = isInitial
+        ? await this.generateInitialTitle(messages.slice(0, INITIAL_TURNS), options)
+        : await this.refreshTitle(conversation.title, messages.slice(-REFRESH_TURNS), options);
+
+      // A refresh that found the same topic still moves the checkpoint forward
+      const stored = await conversationService.updateGeneratedTitle(conversationId, title, messageCount);
+      if (!title || !stored) return null;
+
+      console.log(`🏷️ [TitleService] ${isInitial ? 'Titled' : 'Re-titled'} conversation ${conversationId} "${title}" in ${Date.now() - startTime}ms`);
+      return { conversationId, title, title_source: 'generated', reason: isInitial ? 'initial' : 'drift' };
+    } catch (error: any) {
+      console.warn(`⚠️ [TitleService] Titling failed for ${conversationId}:`, error?.message || error);
+      return null;
+    } finally {
+      this.inFlight.delete(conversationId);
+    }
+  }
+
+  private async generateInitialTitle(
+    turns: ConversationMessage[],
+    options: { userId?: string; priority?: PlanPriority; requestId?: string }
+  ): Promise<string | null> {
+    const result = await structuredOutputService.generate({
+      schema: InitialTitleSchema,
+      schemaName: 'ConversationTitle',
+      model: TITLE_MODEL,
+      responseMode: 'json_object',
+      maxRepairAttempts: 0,
+      options: this.llmOptions(options),
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You name chat conversations for a sidebar. Write a short title (2 to 6 words) for the conversation below, ' +
+            'in the language the user writes in (Spanish or English). No quotes, no emoji, no trailing punctuation. ' +
+            'Return ONLY a JSON object: {"title": "..."}'
+        },
+        { role: 'user', content: this.formatTranscript(turns) }
+      ]
+    });
+    await this.recordUsage(options.userId, result.usage);
+    return this.cleanTitle(result.data.title);
+  }
+
+  private async refreshTitle(
+    currentTitle: string,
+    turns: ConversationMessage[],
+    options: { userId?: string; priority?: PlanPriority; requestId?: string }
+  ): Promise<string | null> {
+    const result = await structuredOutputService.generate({
+      schema: RefreshTitleSchema,
+      schemaName: 'ConversationTitleRefresh',
+      model: TITLE_MODEL,
+      responseMode: 'json_object',
+      maxRepairAttempts: 0,
+      options: this.llmOptions(options),
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You keep chat conversation titles accurate. Given the current title and the latest messages, decide whether ' +
+            'the conversation has moved to a clearly different topic. If it has, write a new short title (2 to 6 words) ' +
+            'in the language the user writes in (Spanish or English), with no quotes, emoji or trailing punctuation. ' +
+            'Return ONLY a JSON object: {"topic_changed": true|false, "title": "..."}'
+        },
+        { role: 'user', content: `Current title: ${currentTitle}\n\nLatest messages:\n${this.formatTranscript(turns)}` }
+      ]
+    });
+    await this.recordUsage(options.userId, result.usage);
+
+    if (!result.data.topic_changed || !result.data.title) return null;
+    const title = this.cleanTitle(result.data.title);
+    return title && title.toLowerCase() !== currentTitle.trim().toLowerCase() ? title : null;
+  }
+
+  private llmOptions(options: { priority?: PlanPriority; requestId?: string }) {
+    return {
+      temperature: 0.3,
+      maxTokens: 60,
+      timeout: 15000,
+      requestId: options.requestId ? `${options.requestId}_title` : undefined,
+      priority: options.priority
+    };
+  }
+
+  private formatTranscript(turns: ConversationMessage[]): string {
+    return turns
+      .map(msg => {
+        const content = msg.content.length > MAX_TURN_CHARS ? `${msg.content.slice(0, MAX_TURN_CHARS)}...` : msg.content;
+        return `${msg.role === 'user' ? 'User' : 'Assistant'}: ${content}`;
+      })
+      .join('\n\n');
+  }
+
+  private cleanTitle(raw: string): string | null {
+    const title = raw
+      .replace(/[\r\n]+/g, ' ')
+      .replace(/^["'“”«»\s]+|["'“”«»\s]+$/g, '')
+      .replace(/[.。!?:;,]+$/, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+    if (!title) return null;
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3).trimEnd()}...` : title;
+  }
+
+  private async recordUsage(userId: string | undefined, usage: TokenUsage | undefined): Promise<void> {
+    if (userId && usage) {
+      await usageService.recordAuxiliaryUsage(userId, TITLE_MODEL, usage);
+    }
+  }
+}
+
+// Export singleton instance
+export const titleService = new TitleService();
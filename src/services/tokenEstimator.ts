@@ -0,0 +1,80 @@
+import { LLMMessage, LLMContentPart, TokenUsage } from '../types';
+
+// Rough average for GPT-style BPE tokenizers on mixed English/Spanish text
+const CHARS_PER_TOKEN = 4;
+// Per-message framing overhead (role markers, separators) used by chat formats
+const TOKENS_PER_MESSAGE = 4;
+// Typical cost of one image at "auto" detail on OpenAI-style vision models
+const TOKENS_PER_IMAGE = 765;
+
+/**
+ * Estimate the token count of a piece of text
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Estimate the token count of message content (plain text or multimodal parts)
+ */
+export function estimateContentTokens(content: string | LLMContentPart[]): number {
+  if (typeof content === 'string') return estimateTokens(content);
+  return content.reduce(
+    (sum, part) => sum + (part.type === 'text' ? estimateTokens(part.text) : TOKENS_PER_IMAGE),
+    0
+  );
+}
+
+/**
+ * Estimate the prompt cost of one chat message, including its framing
+ */
+export function estimateMessageTokens(message: LLMMessage): number {
+  return TOKENS_PER_MESSAGE + estimateContentTokens(message.content);
+}
+
+/**
+ * Estimate usage for a chat exchange when the provider does not report it
+ */
+export function estimateUsage(messages: LLMMessage[], completion: string): TokenUsage {
+  const prompt_tokens = messages.reduce((sum, msg) => sum + estimateMessageTokens(msg), 0);
+  const completion_tokens = estimateTokens(completion);
+  return {
+    prompt_tokens,
+    completion_tokens,
+    total_tokens: prompt_tokens + completion_tokens,
+    estimated: true
+  };
+}
+
+/**
+ * Normalize a provider usage object (OpenAI/OpenRouter shape) into TokenUsage
+ */
+export function normalizeUsage(raw: any): TokenUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const prompt_tokens = Number(raw.prompt_tokens ?? raw.input_tokens);
+  const completion_tokens = Number(raw.completion_tokens ?? raw.output_tokens);
+  if (!Number.isFinite(prompt_tokens) && !Number.isFinite(completion_tokens)) return undefined;
+
+  const prompt = Number.isFinite(prompt_tokens) ? prompt_tokens : 0;
+  const completion = Number.isFinite(completion_tokens) ? completion_tokens : 0;
+  const total = Number(raw.total_tokens);
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: Number.isFinite(total) ? total : prompt + completion
+  };
+}
+
+/**
+ * Sum usage across several upstream calls of one generation (e.g. tool-calling rounds)
+ */
+export function addUsage(total: TokenUsage | undefined, next: TokenUsage): TokenUsage {
+  if (!total) return next;
+  return {
+    prompt_tokens: total.prompt_tokens + next.prompt_tokens,
+    completion_tokens: total.completion_tokens + next.completion_tokens,
+    total_tokens: total.total_tokens + next.total_tokens,
+    estimated: total.estimated || next.estimated
+  };
+}
@@ -0,0 +1,156 @@
+import { ToolCall, ToolDefinition } from '../types';
+import { translationService } from './translationService';
+
+export interface ToolContext {
+  userId?: string;
+  conversationId?: string;
+  personaId?: string;
+}
+
+export interface ChatTool {
+  definition: ToolDefinition;
+  execute(args: Record<string, any>, context: ToolContext): Promise<unknown>;
+}
+
+export interface ToolExecutionResult {
+  toolCallId: string;
+  name: string;
+  content: string; // JSON sent back to the model in the tool message
+  success: boolean;
+}
+
+// Keep tool results small enough not to blow the context window
+const MAX_TOOL_RESULT_CHARS = 4000;
+
+/**
+ * Server-side tools the chat models can call. Personas opt in by listing tool names in `tools`.
+ */
+export class ToolRegistry {
+  private tools: Map<string, ChatTool> = new Map();
+
+  constructor() {
+    this.registerDefaults();
+  }
+
+  private registerDefaults(): void {
+    this.register({
+      definition: {
+        type: 'function',
+        function: {
+          name: 'lookup_word',
+          description:
+            'Look up a Spanish or English word or slang expression in the dictionary. ' +
+            'Use it to cite real meanings, regions and register before explaining a term.',
+          parameters: {
+            type: 'object',
+            properties: {
+              text: { type: 'string', description: 'Word or short expression to look up' },
+              source_lang: { type: 'string', enum: ['es', 'en'], description: 'Language of the text (default es)' },
+              target_lang: { type: 'string', enum: ['es', 'en'], description: 'Language of the definitions (default en)' },
+              context: { type: 'string', description: 'Sentence or region where the term was used' }
+            },
+            required: ['text']
+          }
+        }
+      },
+      execute: async (args, context) => {
+        const text = String(args.text || '').trim();
+        if (!text) throw new Error('text is required');
+        const sourceLang = args.source_lang === 'en' ? 'en' : 'es';
+        const targetLang = args.target_lang || (sourceLang === 'es' ? 'en' : 'es');
+
+        const entry = await translationService.translate({
+          text,
+          sourceLang,
+          targetLang,
+          context: args.context,
+          userId: context.userId
+        });
+        // Only what the model needs to cite the entry
+        return {
+          headword: entry.headword,
+          part_of_speech: entry.part_of_speech,
+          senses: (entry.senses || []).slice(0, 4).map(sense => ({
+            gloss: sense.gloss,
+            regions: sense.regions,
+            registers: sense.registers,
+            usage_notes: sense.usage_notes,
+            example: sense.examples?.[0]
+          }))
+        };
+      }
+    });
+  }
+
+  /**
+   * Register (or replace) a tool
+   */
+  register(tool: ChatTool): void {
+    this.tools.set(tool.definition.function.name, tool);
+  }
+
+  /**
+   * Definitions for the given tool names (unknown names are ignored)
+   */
+  getDefinitions(names: string[] = []): ToolDefinition[] {
+    return names
+      .map(name => this.tools.get(name)?.definition)
+      .filter((definition): definition is ToolDefinition => !!definition);
+  }
+
+  /**
+   * Execute a model tool call. Errors are returned to the model as { error } instead of thrown.
+   */
+  async execute(call: ToolCall, context: ToolContext): Promise<ToolExecutionResult> {
+    const startTime = Date.now();
+    const name = call.function.name;
+    const tool = this.tools.get(name);
+    const result = (content: unknown, success: boolean): ToolExecutionResult => ({
+      toolCallId: call.id,
+      name,
+      content: this.serialize(content),
+      success
+    });
+
+    if (!tool) {
+      console.warn(`⚠️ [ToolRegistry] Unknown tool requested: ${name}`);
+      return result({ error: `Unknown tool: ${name}` }, false);
+    }
+
+    let args: Record<string, any>;
+    try {
+      args = call.function.arguments ? JSON.parse(call.function.arguments) : {};
+    } catch {
+      return result({ error: 'Tool arguments are not valid JSON' }, false);
+    }
+
+    try {
+      const output = await tool.execute(args, context);
+      console.log(`🔧 [ToolRegistry] ${name} completed in ${Date.now() - startTime}ms`);
+      return result(output, true);
+    } catch (error: any) {
+      console.error(`❌ [ToolRegistry] ${name} failed after ${Date.now() - startTime}ms:`, error?.message || error);
+      return result({ error: error?.message || 'Tool execution failed' }, false);
+    }
+  }
+
+  /**
+   * JSON for the tool message; oversized results are cut as { truncated, text } so the model still gets valid JSON
+   */
+  private serialize(content: unknown): string {
+    const json = JSON.stringify(content ?? null);
+    if (json.length <= MAX_TOOL_RESULT_CHARS) return json;
+
+    let budget = MAX_TOOL_RESULT_CHARS - 40;
+    let wrapped = JSON.stringify({ truncated: true, text: json.slice(0, budget) });
+    // Escaping quotes and backslashes can push the wrapper over the limit
+    while (wrapped.length > MAX_TOOL_RESULT_CHARS && budget > 0) {
+      budget -= wrapped.length - MAX_TOOL_RESULT_CHARS;
+      wrapped = JSON.stringify({ truncated: true, text: json.slice(0, Math.max(budget, 0)) });
+    }
+    return wrapped;
+  }
+}
+
+// Export singleton instance
+export const toolRegistry = new ToolRegistry();
@@ -55,4 +55,24 @@ export const TranslationResponseSchema = z.object({
     z.object({ synonyms: z.array(z.string()).optional(), antonyms: z.array(z.string()).optional() })
   ]).default({ synonyms: [], antonyms: [] }),
   entry: DictionaryEntrySchema.optional(),
-});
\ No newline at end of file
+});
+/**
+ * What the translator model must return before transformOpenRouterResponse normalizes it:
+ * a DictionaryEntry-like object (or the legacy `definitions` shape) with at least one sense.
+ * Loose so fields outside this minimal contract reach the normalizer untouched.
+ */
+export const TranslationModelOutputSchema = z.object({
+  headword: z.string().optional(),
+  part_of_speech: z.string().optional(),
+  senses: z.array(z.object({
+    gloss: z.string().optional(),
+    translation_es: z.string().optional(),
+    registers: z.array(z.string()).optional(),
+    regions: z.array(z.string()).optional(),
+    examples: z.array(z.unknown()).optional(),
+  }).loose()).optional(),
+  definitions: z.array(z.object({}).loose()).optional(),
+}).loose().refine(
+  (value) => (value.senses?.length ?? 0) > 0 || (value.definitions?.length ?? 0) > 0,
+  { message: 'Include at least one sense in "senses"' }
+);
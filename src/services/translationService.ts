@@ -1,10 +1,13 @@
 import { LLMMessage, LLMOptions } from '../types';
-import { OpenRouterAdapter } from './openrouterAdapter';
+import { llmProviderRegistry } from './llmProviderRegistry';
+import { llmScheduler } from './llmScheduler';
+import { LLMError } from './llmErrors';
+import { modelManager } from './modelService';
 import { AnalyticsService } from './analyticsService';
 import { Translation } from '@prisma/client';
-import { jsonrepair } from 'jsonrepair';
 import { PrismaClient } from '@prisma/client';
-import { TranslationResponseSchema } from './translationSchema';
+import { TranslationModelOutputSchema } from './translationSchema';
+import { structuredOutputService, StructuredOutputError } from './structuredOutputService';
 import { personaService } from './personaService';
 
 const DEFAULT_SCHEMA_VERSION = 'dict_v1';
@@ -83,7 +86,6 @@ interface DictionaryEntry {
 }
 
 export class TranslationService {
-  private openRouterAdapter: OpenRouterAdapter;
   private analyticsService: AnalyticsService;
   private prisma: PrismaClient;
 
@@ -189,10 +191,6 @@ export class TranslationService {
   }
 
   constructor() {
-    this.openRouterAdapter = new OpenRouterAdapter(
-      process.env.OPENROUTER_API_KEY || '',
-      process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1'
-    );
     this.analyticsService = new AnalyticsService();
     this.prisma = new PrismaClient(); // Correct instantiation
     this.init(); // Now safe to call
@@ -203,6 +201,7 @@ export class TranslationService {
     console.log('TranslationService initialized with OPENROUTER_BASE_URL:', process.env.OPENROUTER_BASE_URL || 'DEFAULT (openrouter.ai)');
     console.log('OPENROUTER_MODEL:', process.env.OPENROUTER_MODEL || 'DEFAULT (gpt-4o-mini)');
     console.log('OPENROUTER_TRANSLATE_MODEL:', process.env.OPENROUTER_TRANSLATE_MODEL || 'DEFAULT (meta-llama/llama-4-maverick:free)');
+    console.log('LLM_PROVIDER:', process.env.LLM_PROVIDER || 'DEFAULT (auto by model)');
   }
 
   private transformOpenRouterResponse(openRouterResponse: any): any {
@@ -507,6 +506,13 @@ Normalization candidates (aliases to consider): ${this.buildNormalizationCandida
 
       const failoverModel = 'meta-llama/llama-3.3-8b-instruct:free'; // JSON-stable fallback model
       let currentModel = effectiveModel;
+
+      // Skip straight to a healthy model when the primary's circuit breaker is open
+      if (!(await modelManager.checkModelAvailability(currentModel))) {
+        currentModel = (await modelManager.getFallbackModel(currentModel)).id;
+        console.warn(`🔴 Translation model ${effectiveModel} unavailable (circuit open), using ${currentModel}`);
+        this.metrics.modelFailovers.inc();
+      }
       let rawResult: string | undefined;
       let parsedResult: any | undefined;
       let openRouterResponse: TranslationResponse | undefined;
@@ -521,15 +527,27 @@ Normalization candidates (aliases to consider): ${this.buildNormalizationCandida
         model: effectiveModel,
         timeout: 30000,
         requestId: `translate_${Date.now()}`,
-        temperature: 0.2
+        temperature: 0.2,
+        priority: await llmScheduler.getPriorityForUser(request.userId)
       };
 
       // Attempt translation with retry and model failover
       for (let attempt = 0; attempt < 2; attempt++) { // Allow one retry for the primary model
         try {
           console.log(`🧠 Attempting translation with model: ${currentModel}, attempt: ${attempt + 1}`);
-          rawResult = await this.openRouterAdapter.fetchCompletion(messages, { ...options, model: currentModel });
-          parsedResult = this.safeParseJson(rawResult); // This now includes jsonrepair
+          // Transport retries (429/5xx) happen inside the adapter; parse/validation repair in structuredOutputService
+          const structured = await structuredOutputService.generate({
+            schema: TranslationModelOutputSchema,
+            schemaName: 'DictionaryEntry',
+            messages,
+            model: currentModel,
+            options: { ...options },
+            // The translator prompt forbids response_format (several providers 400 on it)
+            responseMode: 'none'
+          });
+          rawResult = structured.raw;
+          parsedResult = structured.data;
+          if (structured.repaired) this.metrics.jsonRepairSuccesses.inc();
 
           // If parse is successful, proceed
           openRouterResponse = this.transformOpenRouterResponse(parsedResult);
@@ -549,7 +567,15 @@ Normalization candidates (aliases to consider): ${this.buildNormalizationCandida
         } catch (error: any) {
           console.warn(`⚠️ Translation attempt with ${currentModel} failed (attempt ${attempt + 1}):`, error.message);
           this.metrics.errors.inc();
-          this.metrics.jsonParseErrors.inc(); // Assuming parse errors are the primary failure here
+          if (error instanceof StructuredOutputError) {
+            this.metrics.jsonParseErrors.inc();
+            if (error.kind === 'parse') this.metrics.jsonRepairFailures.inc();
+          }
+
+          // Another model will not fix a bad API key
+          if (error instanceof LLMError && error.kind === 'auth') {
+            throw error;
+          }
 
           if (currentModel === failoverModel) {
              // If failover model also failed, re-throw to trigger final fallback
@@ -695,53 +721,6 @@ Normalization candidates (aliases to consider): ${this.buildNormalizationCandida
     return [...senses].sort((a, b) => rank(a) - rank(b));
   }
 
-  /**
-   * Best-effort JSON sanitizer and parser to handle models that emit code fences or extra text.
-   */
-  private safeParseJson(raw: string): any {
-    if (!raw || typeof raw !== 'string') {
-      throw new Error('Empty or non-string completion from provider');
-    }
-
-    // Preserve original for debug logging
-    const original = raw;
-    console.log(`[TranslationService] safeParseJson original length: ${original.length}`);
-
-    // Attempt initial parse
-    try {
-      return JSON.parse(original);
-    } catch (initialError: any) {
-      console.warn('[TranslationService] Initial JSON.parse failed:', initialError.message, '; attempting repairs with jsonrepair');
-      this.metrics.jsonParseErrors.inc();
-      let repaired: string;
-      try {
-        repaired = jsonrepair(original);
-        this.metrics.jsonRepairSuccesses.inc();
-        const resultAfterRepair = JSON.parse(repaired);
-        console.log('[TranslationService] jsonrepair successful, repaired length:', repaired.length);
-        return resultAfterRepair;
-      } catch (repairError: any) {
-        console.warn('[TranslationService] jsonrepair failed:', repairError.message, '; trying largest JSON substring fallback');
-        this.metrics.jsonRepairFailures.inc();
-        // Fallback: try to extract the largest valid JSON substring
-        const largestSubstring = this.extractLargestJsonSubstring(original);
-
-        if (largestSubstring) {
-          try {
-            // Log before attempting parse after substring extraction
-            console.log('[TranslationService] Attempting parse after largest substring extraction, length:', largestSubstring.length);
-            return JSON.parse(largestSubstring);
-          } catch (substringError: any) {
-            console.error('[TranslationService] Largest-substring parse failed:', substringError.message);
-          }
-        }
-      }
-      // Log original raw response for debugging, truncated in production
-      console.error('[TranslationService] JSON parsing failed after all repair attempts. Original (truncated 2000 chars):', original.slice(0, 2000));
-      throw new Error('Failed to parse model JSON safely: Unable to recover from parse errors');
-    }
-  }
-
   /**
    * Generate normalization alias candidates for slang/SMS spellings to guide the LLM.
    * Example: "mamawebo" -> ["mamahuevo","mamagüevo","mamaguevo","mamahuebo","mamaguebo"]
@@ -808,62 +787,6 @@ Normalization candidates (aliases to consider): ${this.buildNormalizationCandida
     }
   }
 
-  /**
-   * Minimal JSON Schema to coax a DictionaryEntry-style output.
-   * Provider may ignore, but harmless if unsupported.
-   */
-  private getDictionaryEntryJsonSchema(): any {
-    return {
-      name: "DictionaryEntry",
-      schema: {
-        type: "object",
-        properties: {
-          headword: { type: "string" },
-          pronunciation: {
-            type: "object",
-            properties: {
-              ipa: { type: "string" },
-              syllabification: { type: "string" }
-            },
-            required: ["ipa"]
-          },
-          part_of_speech: { type: "string" },
-          gender: { type: ["string", "null"], enum: ["m", "f", "mf", null] },
-          inflections: { type: "array", items: { type: "string" } },
-          senses: {
-            type: "array",
-            items: {
-              type: "object",
-              properties: {
-                sense_number: { type: "number" },
-                registers: { type: "array", items: { type: "string" } },
-                regions: { type: "array", items: { type: "string" } },
-                gloss: { type: "string" },
-                usage_notes: { type: "string" },
-                examples: {
-                  type: "array",
-                  items: {
-                    type: "object",
-                    properties: { es: { type: "string" }, en: { type: "string" } },
-                    required: ["es", "en"],
-                  },
-                },
-                synonyms: { type: "array", items: { type: "string" } },
-                antonyms: { type: "array", items: { type: "string" } },
-                cross_references: { type: "array", items: { type: "string" } },
-                // New: explicit Spanish translation field per sense (optional)
-                translation_es: { type: "string" },
-              },
-              required: ["gloss", "examples"],
-            },
-          },
-        },
-        required: ["headword", "pronunciation", "senses"],
-      },
-      strict: false,
-    };
-  }
-
   // Map DictionaryEntry -> legacy fields for backward compatibility with existing UI
   private mapEntryToLegacy(entry: DictionaryEntry): TranslationResponse {
     const pos = entry.part_of_speech || undefined;
@@ -969,34 +892,6 @@ Normalization candidates (aliases to consider): ${this.buildNormalizationCandida
     }
   }
 
-  /**
-   * Extract the largest valid JSON substring from a potentially corrupted string.
-   * This is a fallback method when initial JSON parsing fails.
-   */
-  private extractLargestJsonSubstring(input: string): string | null {
-    // Remove any non-JSON content (e.g., code fences, markdown)
-    const cleaned = input.replace(/```json\s*|\s*```/g, '');
-    
-    // Find all potential JSON substrings
-    const matches = cleaned.match(/{[\s\S]*}/g);
-    if (!matches) return null;
-    
-    // Sort by length in descending order
-    const sortedMatches = matches.sort((a, b) => b.length - a.length);
-    
-    // Try each substring in order of size
-    for (const match of sortedMatches) {
-      try {
-        const result = JSON.parse(match);
-        return match;
-      } catch (e) {
-        // Continue to next larger substring
-      }
-    }
-    
-    return null;
-  }
-
   async saveTranslation(userId: string, query: string, response: TranslationResponse, sourceLang?: string, targetLang?: string): Promise<void> {
     if (!userId) {
       console.warn('saveTranslation skipped: no userId provided');
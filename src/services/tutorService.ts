@@ -0,0 +1,116 @@
+import { z } from 'zod';
+import { structuredOutputService } from './structuredOutputService';
+import { usageService } from './usageService';
+import { Formality, PlanPriority, TokenUsage, TutorCorrection, TutorFeedback } from '../types';
+
+// Cheap model for corrections; falls back to the default chat model
+const TUTOR_MODEL = process.env.TUTOR_MODEL || process.env.OPENROUTER_MODEL || 'gpt-4o-mini';
+const MAX_TUTOR_MESSAGE_CHARS = 2000;
+const MAX_CORRECTIONS = 10;
+
+const TUTOR_CATEGORIES = ['grammar', 'spelling', 'register', 'vocabulary', 'punctuation'] as const;
+
+const TutorFeedbackSchema = z.object({
+  corrections: z.array(z.object({
+    original: z.string().min(1),
+    suggestion: z.string(),
+    explanation: z.string(),
+    category: z.enum(TUTOR_CATEGORIES)
+  })),
+  corrected_message: z.string().nullable().optional()
+});
+
+// How the learner should address the persona in each register
+const REGISTER_HINTS: Record<Formality, string> = {
+  tu: 'informal «tú»',
+  usted: 'formal «usted»',
+  vos: 'regional voseo («vos querés»)',
+  mixed: 'any of tú, usted or vos, as long as one form is used consistently within a sentence'
+};
+
+/**
+ * Tutor mode: finds grammar, spelling and register mistakes in a learner's Spanish message.
+ * Runs beside the persona's reply, which stays in character; failures only skip the feedback.
+ */
+export class TutorService {
+  async analyze(
+    message: string,
+    options: { formality: Formality; userId?: string; priority?: PlanPriority; requestId?: string }
+  ): Promise<TutorFeedback | null> {
+    const text = message.trim().slice(0, MAX_TUTOR_MESSAGE_CHARS);
+    if (!text) return null;
+
+    const startTime = Date.now();
+    try {
+      const result = await structuredOutputService.generate({
+        schema: TutorFeedbackSchema,
+        schemaName: 'TutorFeedback',
+        model: TUTOR_MODEL,
+        responseMode: 'json_object',
+        options: {
+          temperature: 0.1,
+          maxTokens: 800,
+          timeout: 20000,
+          requestId: options.requestId ? `${options.requestId}_tutor` : undefined,
+          priority: options.priority
+        },
+        messages: [
+          {
+            role: 'system',
+            content:
+              'You are a friendly Spanish teacher. Find the grammar, spelling, punctuation, vocabulary and register mistakes ' +
+              `in the learner's chat message. In this conversation the learner should address the other person with ${REGISTER_HINTS[options.formality]}; ` +
+              'using another form is a "register" mistake. Chat style is fine: do not flag missing opening ¿¡, casual abbreviations or ' +
+              'English words used on purpose. "original" must be copied exactly from the message; "explanation" is one short sentence ' +
+              'in simple Spanish. If there are no mistakes, return an empty list and corrected_message null. ' +
+              'Return ONLY a JSON object: {"corrections": [{"original": "...", "suggestion": "...", "explanation": "...", ' +
+              `"category": "${TUTOR_CATEGORIES.join('|')}"}], "corrected_message": "..." | null}`
+          },
+          { role: 'user', content: text }
+        ]
+      });
+      await this.recordUsage(options.userId, result.usage);
+
+      const corrections = result.data.corrections
+        .filter(correction => correction.suggestion.trim() !== correction.original.trim())
+        .slice(0, MAX_CORRECTIONS)
+        .map(correction => this.locate(text, correction));
+      const correctedMessage = result.data.corrected_message?.trim();
+      console.log(`🎓 [TutorService] ${corrections.length} correction(s) for ${options.requestId || 'message'} in ${Date.now() - startTime}ms`);
+      return {
+        corrections,
+        corrected_message: corrections.length > 0 && correctedMessage && correctedMessage !== text ? correctedMessage : null,
+        model: TUTOR_MODEL,
+        analyzed_at: new Date().toISOString()
+      };
+    } catch (error: any) {
+      console.warn(`⚠️ [TutorService] Analysis failed for ${options.requestId || 'message'}:`, error?.message || error);
+      return null;
+    }
+  }
+
+  /**
+   * Character offsets of the flagged span, so clients can underline it
+   */
+  private locate(message: string, correction: Omit<TutorCorrection, 'start' | 'end'>): TutorCorrection {
+    let start = message.indexOf(correction.original);
+    if (start < 0) start = message.toLowerCase().indexOf(correction.original.toLowerCase());
+    return {
+      original: correction.original,
+      suggestion: correction.suggestion,
+      explanation: correction.explanation,
+      category: correction.category,
+      start: start >= 0 ? start : null,
+      end: start >= 0 ? start + correction.original.length : null
+    };
+  }
+
+  private async recordUsage(userId: string | undefined, usage: TokenUsage | undefined): Promise<void> {
+    if (userId && usage) {
+      await usageService.recordAuxiliaryUsage(userId, TUTOR_MODEL, usage);
+    }
+  }
+}
+
+// Export singleton instance
+export const tutorService = new TutorService();
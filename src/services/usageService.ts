@@ -0,0 +1,37 @@
+import { TokenUsage } from '../types';
+import { subscriptionService } from './subscriptionService';
+import { analyticsService } from './analyticsService';
+
+export class UsageService {
+  /**
+   * Accumulate token usage for a completed generation into UsageLog and UserAnalytics
+   */
+  async recordUsage(userId: string, modelId: string, usage: TokenUsage): Promise<void> {
+    await this.record(userId, modelId, usage, 1);
+  }
+
+  /**
+   * Token usage of background calls (titles, rolling summaries, tutor feedback): billed like any
+   * other tokens, but not counted as a message in UserAnalytics
+   */
+  async recordAuxiliaryUsage(userId: string, modelId: string, usage: TokenUsage): Promise<void> {
+    await this.record(userId, modelId, usage, 0);
+  }
+
+  private async record(userId: string, modelId: string, usage: TokenUsage, messages: number): Promise<void> {
+    const startTime = Date.now();
+    try {
+      await Promise.all([
+        subscriptionService.trackMessageUsage(userId, modelId, usage.total_tokens),
+        analyticsService.incrementUserUsage(userId, { messages, tokens: usage.total_tokens })
+      ]);
+      console.log(`📊 [UsageService] Recorded ${usage.total_tokens} tokens (${usage.prompt_tokens} prompt + ${usage.completion_tokens} completion${usage.estimated ? ', estimated' : ''}) for user ${userId} on ${modelId}${messages ? '' : ' (background call)'}, time: ${Date.now() - startTime}ms`);
+    } catch (error) {
+      // Usage accounting must never break the chat flow
+      console.error(`❌ [UsageService] Failed to record usage for user ${userId}:`, error);
+    }
+  }
+}
+
+// Export singleton instance
+export const usageService = new UsageService();
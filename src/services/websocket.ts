@@ -4,11 +4,13 @@ import {
 } from 'socket.io';
 import { jwtVerify, createRemoteJWKSet } from 'jose';
 import { conversationService } from './conversationService';
-import { personaService } from './personaService';
 import { collaborationService } from './collaborationService';
+import { folderService } from './folderService';
 import { translationService } from './translationService';
-import { OpenRouterAdapter } from './openrouterAdapter';
-import { LLMMessage, LLMOptions, DeltaChunk, UserMessagePayload } from '../types';
+import { generationRegistry } from './generationRegistry';
+import { chatPipeline, ChatPipelineStatus, ChatRequestContext, ChatEventSink } from './chatPipeline';
+import { DeltaChunk, UserMessagePayload, EditMessagePayload, RegenerateMessagePayload } from '../types';
+import { ConversationMessage } from '../models/conversation';
 
 interface WebSocketUser {
   userId: string;
@@ -160,6 +162,74 @@ class WebSocketService {
     this.socketActivity.set(socketId, Date.now());
   }
 
+  /**
+   * Run a chat pipeline call for a socket with the chat rate limit and metrics
+   */
+  private async runChat(
+    socket: Socket,
+    run: (context: ChatRequestContext, sink: ChatEventSink) => Promise<ChatPipelineStatus>
+  ): Promise<void> {
+    // Rate limiting (reuse existing logic)
+    const now = Date.now();
+    const userKey = socket.id;
+    const rateLimitData = this.rateLimitMap.get(userKey);
+    if (!rateLimitData) {
+      this.rateLimitMap.set(userKey, { count: 0, resetTime: now + 60000 });
+    }
+    const currentLimit = this.rateLimitMap.get(userKey)!;
+    if (currentLimit.count >= 5) { // 5 messages per minute for chat
+      console.log('[DEBUG] Rate limit exceeded');
+      socket.emit('error', { message: 'Rate limit exceeded. Please wait.' });
+      return;
+    }
+    currentLimit.count++;
+
+    // Metrics
+    this.metrics.requests.inc();
+
+    const socketUser = (socket as any).user;
+    let status: ChatPipelineStatus;
+    try {
+      status = await run(
+        {
+          user: socketUser?.sub ? { id: socketUser.sub, email: socketUser.email, name: socketUser.name } : undefined,
+          sinkId: socket.id
+        },
+        {
+          emit: (event, payload) => socket.emit(event, payload),
+          isConnected: () => socket.connected
+        }
+      );
+    } catch (error: any) {
+      // Failures before the pipeline's own error handling (e.g. resolving an edit/regenerate target)
+      console.error('❌ Chat request failed:', error);
+      socket.emit('error', {
+        message: 'Sorry, I encountered an error processing your message. Please try again.',
+        details: error?.message
+      });
+      status = 'failed';
+    }
+
+    // Metrics
+    if (status === 'completed') {
+      this.metrics.successes.inc();
+    } else if (status === 'failed') {
+      this.metrics.errors.inc();
+    }
+  }
+
+  private toHistoryMessage(msg: ConversationMessage) {
+    return {
+      id: msg.id,
+      type: msg.role as 'user' | 'assistant',
+      content: msg.content,
+      timestamp: new Date(msg.created_at).getTime(), // Convert Date to number
+      country_key: msg.persona_id || undefined,
+      parent_id: msg.parent_id ?? null,
+      branch_id: msg.branch_id || 'main'
+    };
+  }
+
   private setupWebSocketHandlers() {
     this.io.on('connection', (socket) => {
       console.log('User connected:', socket.id);
@@ -177,7 +247,7 @@ class WebSocketService {
 
       // Add catch-all event handler for debugging unhandled events
       socket.onAny((event, ...args) => {
-        if (!['connect', 'disconnect', 'ping', 'pong', 'translation_request', 'user_message', 'load_history'].includes(event)) {
+        if (!['connect', 'disconnect', 'ping', 'pong', 'translation_request', 'user_message', 'edit_message', 'regenerate_message', 'switch_branch', 'select_candidate', 'cancel_generation', 'load_history'].includes(event)) {
           console.log('🔍 UNHANDLED EVENT:', event, 'from', socket.id, 'args:', args.length > 0 ? JSON.stringify(args[0]).substring(0, 200) : 'no args');
         }
       });
@@ -266,30 +336,20 @@ class WebSocketService {
            try {
              const authedUserId = (socket as any).user?.sub || socket.id;
              
-             // Retry function with exponential backoff
-             const attempt = async (tries = 0) => {
-               try {
-                 return await translationService.translate({
-                   text: data.query,
-                   sourceLang: data.language || 'en',
-                   targetLang: 'es',
-                   context: data.context,
-                   userId: authedUserId
-                 });
-               } catch (err) {
-                 if (tries < 2) {
-                   const delay = Math.min(500 * 2 ** tries, 2000);
-                   console.log(`🔁 Retry translation (${tries + 1}) in ${delay}ms`);
-                   await new Promise((r) => setTimeout(r, delay));
-                   return attempt(tries + 1);
-                 }
-                 console.error('❌ Translation failed after retries', err);
-                 socket.emit('translation_fallback', { transport, reason: String((err as Error)?.message || err) });
-                 throw err;
-               }
-             };
-             
-             result = await attempt();
+             // Transport retries live in the LLM adapter; a failure here is final
+             try {
+               result = await translationService.translate({
+                 text: data.query,
+                 sourceLang: data.language || 'en',
+                 targetLang: 'es',
+                 context: data.context,
+                 userId: authedUserId
+               });
+             } catch (err) {
+               console.error('❌ Translation failed', err);
+               socket.emit('translation_fallback', { transport, reason: String((err as Error)?.message || err) });
+               throw err;
+             }
              console.log('✅ Translation service returned result for:', data.query, 'keys:', Object.keys(result));
            } catch (translationError: any) {
              console.error('❌ Translation service error for', data.query, ':', (translationError as Error).message);
@@ -365,351 +425,134 @@ class WebSocketService {
         const transport = socket.conn?.transport?.name || 'unknown';
         console.log('Transport for user_message:', transport);
 
-        // Rate limiting (reuse existing logic)
-        const now = Date.now();
-        const userKey = socket.id;
-        const rateLimitData = this.rateLimitMap.get(userKey);
-        if (!rateLimitData) {
-          this.rateLimitMap.set(userKey, { count: 0, resetTime: now + 60000 });
+        await this.runChat(socket, (context, sink) => chatPipeline.handleUserMessage(data, context, sink));
+      });
+
+      // Edit an earlier user message; the reply streams like user_message on a new branch
+      socket.on('edit_message', async (data: EditMessagePayload) => {
+        this.updateActivity(socket.id);
+        if (!data || typeof data !== 'object') {
+          socket.emit('error', { message: 'edit_message requires conversationId, edited_message_id, message and message_id' });
+          return;
         }
-        const currentLimit = this.rateLimitMap.get(userKey)!;
-        if (currentLimit.count >= 5) { // 5 messages per minute for chat
-          console.log('[DEBUG] Rate limit exceeded');
-          socket.emit('error', { message: 'Rate limit exceeded. Please wait.' });
+        console.log('✏️ Received edit_message:', { conversationId: data?.conversationId, edited_message_id: data?.edited_message_id, id: socket.id });
+        await this.runChat(socket, (context, sink) => chatPipeline.editMessage(data, context, sink));
+      });
+
+      // Regenerate an assistant reply on a new branch
+      socket.on('regenerate_message', async (data: RegenerateMessagePayload) => {
+        this.updateActivity(socket.id);
+        if (!data || typeof data !== 'object') {
+          socket.emit('error', { message: 'regenerate_message requires conversationId, assistant_message_id and message_id' });
           return;
         }
-        currentLimit.count++;
+        console.log('🔁 Received regenerate_message:', { conversationId: data?.conversationId, assistant_message_id: data?.assistant_message_id, id: socket.id });
+        await this.runChat(socket, (context, sink) => chatPipeline.regenerateMessage(data, context, sink));
+      });
 
-        // Metrics
-        this.metrics.requests.inc();
+      // Switch the branch shown and continued by default; replies with the branch's thread
+      socket.on('switch_branch', async (data: { conversationId: string; branch_id: string }) => {
+        const userId = (socket as any).user?.sub;
+        if (!userId) {
+          socket.emit('error', { message: 'Authentication required to switch branches' });
+          return;
+        }
 
         try {
-          console.log('[DEBUG] Starting validation checks');
-
-          if (!data.message.trim()) {
-            console.log('[DEBUG] Validation failed: empty message');
-            socket.emit('error', { message: 'Message cannot be empty' });
+          const { conversationId, branch_id: branchId } = data || ({} as any);
+          const conversation = conversationId ? await conversationService.getConversation(conversationId) : null;
+          if (!conversation) {
+            socket.emit('error', { message: 'Conversation not found' });
             return;
           }
-
-          if (!data.selected_country_key) {
-            console.log('[DEBUG] Validation failed: no country selected');
-            socket.emit('error', { message: 'Please select a country first' });
+          const hasAccess = await collaborationService.hasAccessToConversation(conversationId, userId);
+          if (!hasAccess && conversation.user_id !== userId) {
+            socket.emit('error', { message: 'Access denied to this conversation' });
             return;
           }
-
-          // Validate connection
-          if (!socket.connected) {
-            console.warn('[DEBUG] Validation failed: socket not connected');
-            socket.emit('error', { message: 'Connection lost; please retry' });
+          if (!branchId || !(await conversationService.branchExists(conversationId, branchId))) {
+            socket.emit('error', { message: 'Branch not found' });
             return;
           }
 
-          console.log('[DEBUG] Validation checks passed');
-
-          // Extract authenticated user ID from Neon Stack Auth (optional for unauth)
-          const userId = (socket as any).user?.sub;
-          console.log('[DEBUG] Extracted userId:', userId ? `${userId.slice(0, 8)}...` : 'none (anonymous)');
-          console.log('[DEBUG] Socket user object:', (socket as any).user);
-          const isAuthenticated = !!userId;
-
-          let conversationId = data.conversationId;
-          let isNewConversation = false;
-          let tempConversationId = null;
-          // A handler-scoped resolved ID to use after auth checks/creation
-          let resolvedConversationId: string | undefined;
-
-          if (isAuthenticated) {
-            // For authenticated users, use persistent conversation
-            if (!conversationId) {
-              console.log('[DEBUG] No conversationId, creating new one for authenticated user');
-              const newConv = await conversationService.createConversation({
-                user_id: userId,
-                title: data.message.substring(0, 50) + '...', // Initial title from first message
-                model: data.model || process.env.OPENROUTER_MODEL || 'gpt-4o-mini',
-                persona_id: data.selected_country_key,
-                email: (socket as any).user?.email,
-                name: (socket as any).user?.name
-              });
-              conversationId = newConv.id;
-              isNewConversation = true;
-              console.log(`🆕 Created new conversation ${conversationId} for user ${userId}`);
-            } else {
-              console.log('[DEBUG] Using existing conversationId:', conversationId);
-            }
-
-            // Verify user access to conversation; create if missing or stale/inaccessible id (stale localStorage)
-            console.log('[DEBUG] Verifying user access to conversation');
-            let conversation = conversationId ? await conversationService.getConversation(conversationId) : null;
-            let hasAccess = false;
-            if (conversationId && conversation) {
-              hasAccess = await collaborationService.hasAccessToConversation(conversationId, userId);
-            }
-            if (!conversationId || !conversation) {
-              console.log('[DEBUG] Conversation not found; creating new for authenticated user');
-              const newConv = await conversationService.createConversation({
-                user_id: userId,
-                title: data.message.substring(0, 50) + '...',
-                model: data.model || process.env.OPENROUTER_MODEL || 'gpt-4o-mini',
-                persona_id: data.selected_country_key,
-                email: (socket as any).user?.email,
-                name: (socket as any).user?.name
-              });
-              conversationId = newConv.id;
-              isNewConversation = true;
-              conversation = newConv as any;
-              console.log(`🆕 Created new conversation ${conversationId} for user ${userId} (replacement for missing/invalid id)`);
-            } else if (!hasAccess && conversation.user_id !== userId) {
-              console.log('[DEBUG] Access denied to existing conversation; creating fresh conversation for user');
-              const newConv = await conversationService.createConversation({
-                user_id: userId,
-                title: data.message.substring(0, 50) + '...',
-                model: data.model || process.env.OPENROUTER_MODEL || 'gpt-4o-mini',
-                persona_id: data.selected_country_key,
-                email: (socket as any).user?.email,
-                name: (socket as any).user?.name
-              });
-              conversationId = newConv.id;
-              isNewConversation = true;
-              conversation = newConv as any;
-              console.log(`🆕 Created new conversation ${conversationId} for user ${userId} (no access to provided id)`);
-            }
-            console.log('[DEBUG] User access verified or new conversation established');
-
-            // Resolve a definite conversation id for typed usage
-            if (!conversationId) {
-              console.error('[DEBUG] Conversation ID unresolved after creation/access check');
-              socket.emit('error', { message: 'Failed to resolve conversation' });
-              return;
-            }
-            resolvedConversationId = conversationId as string;
-
-            // Store user message
-            console.log('[DEBUG] Storing user message');
-            const userMessageId = data.message_id || this.generateMessageId();
-            await conversationService.addMessage({
-              conversation_id: resolvedConversationId,
-              role: 'user',
-              content: data.message,
-              model: data.model || '',
-              persona_id: data.selected_country_key,
-              tokens_used: undefined
-            });
-            console.log(`💾 Stored user message ${userMessageId} in conversation ${resolvedConversationId}`);
-
-            // Emit user message confirmation to client
-            socket.emit('user_message_stored', { message_id: userMessageId, conversationId: resolvedConversationId });
-          } else {
-            // For unauthenticated users, use temporary conversation ID, skip DB
-            console.log('[DEBUG] Unauthenticated user, using temporary conversation');
-            if (!conversationId) {
-              tempConversationId = `temp-conv-${socket.id}-${Date.now()}`;
-              conversationId = tempConversationId;
-              isNewConversation = true;
-              console.log(`🆕 Created temporary conversation ${conversationId} for anonymous user`);
-            }
-            // No DB storage for unauth
-          }
+          await conversationService.setActiveBranch(conversationId, branchId);
+          const messages = await conversationService.getConversationMessages(conversationId, branchId);
+          socket.emit('branch_switched', {
+            conversationId,
+            branch_id: branchId,
+            messages: messages.map(msg => this.toHistoryMessage(msg)),
+            timestamp: new Date().toISOString()
+          });
+          console.log(`🌿 Switched conversation ${conversationId} to branch ${branchId} for user ${userId}`);
+        } catch (error: any) {
+          console.error('Error switching branch:', error);
+          socket.emit('error', { message: 'Failed to switch branch' });
+        }
+      });
 
-          console.log('[DEBUG] Conversation ID resolved:', conversationId);
+      // Compare mode: pick the winning candidate, which becomes the assistant message
+      socket.on('select_candidate', async (data: { conversationId: string; compare_id: string; candidate_id: string }) => {
+        const userId = (socket as any).user?.sub;
+        if (!userId) {
+          socket.emit('error', { message: 'Authentication required to select a candidate' });
+          return;
+        }
 
-          // Fetch persona (common for both auth/unauth)
-          console.log('[DEBUG] Fetching persona');
-          const persona = await personaService.getPersona(data.selected_country_key);
-          if (!persona) {
-            console.error('[DEBUG] No persona found');
-            socket.emit('error', { message: 'Invalid country selection' });
+        try {
+          const { conversationId, compare_id: compareId, candidate_id: candidateId } = data || ({} as any);
+          const conversation = conversationId ? await conversationService.getConversation(conversationId) : null;
+          if (!conversation) {
+            socket.emit('error', { message: 'Conversation not found' });
             return;
           }
-          console.log('[DEBUG] Persona fetched successfully');
-
-          // Prepare LLM messages (include conversation history for context if authenticated)
-          let messages: LLMMessage[];
-          if (isAuthenticated) {
-            console.log('[DEBUG] Fetching conversation history');
-            const history = await conversationService.getConversationMessages(resolvedConversationId as string);
-            console.log(`[DEBUG] Fetched ${history.length} history messages`);
-            messages = [
-              { role: 'system', content: persona.prompt_text },
-              ...history.map(msg => ({ role: msg.role as 'user' | 'assistant', content: msg.content })).slice(-10), // Last 10 messages for context
-              { role: 'user', content: data.message }
-            ];
-          } else {
-            // For unauth, no history, just system + current message
-            messages = [
-              { role: 'system', content: persona.prompt_text },
-              { role: 'user', content: data.message }
-            ];
-            console.log('[DEBUG] Unauthenticated, no history included in LLM request');
-          }
-
-          console.log('[DEBUG] LLM messages prepared, length:', messages.length);
-
-          // Log before OpenRouter call
-          console.log('[OpenRouter] Preparing to call streamCompletion');
-          console.log('[OpenRouter] API key present:', !!process.env.OPENROUTER_API_KEY ? `${process.env.OPENROUTER_API_KEY?.slice(0, 10)}...` : 'NO KEY');
-
-          // Determine effective model with strict precedence
-          let effectiveModel: string | undefined;
-          if (data.model) {
-            effectiveModel = data.model;
-            console.log(`🧠 Using payload-selected model for request ${data.message_id}: ${effectiveModel}`);
-          } else if (isAuthenticated && conversationId) {
-            try {
-              const dbModel = await conversationService.getCurrentModel(conversationId);
-              if (dbModel) {
-                effectiveModel = dbModel;
-                console.log(`📋 LOADED CONVERSATION MODEL from DB for ${conversationId}: ${effectiveModel}`);
-              }
-            } catch (dbError: any) {
-              console.warn(`⚠️ FAILED TO LOAD CONVERSATION MODEL from DB, will use default: ${dbError?.message || dbError}`);
-            }
-          }
-          if (!effectiveModel) {
-            effectiveModel = process.env.OPENROUTER_MODEL || 'gpt-4o-mini';
-            console.log(`🔁 Fallback to default model for request ${data.message_id}: ${effectiveModel}`);
-          }
-
-          console.log('[OpenRouter] Model:', effectiveModel, 'Messages length:', messages.length);
-
-          // Check for API key before proceeding
-          if (!process.env.OPENROUTER_API_KEY) {
-            const errorMsg = 'OpenRouter API key not configured';
-            console.error(`[OpenRouter] ${errorMsg}`);
-            socket.emit('llm_error', { message: errorMsg });
+          const hasAccess = await collaborationService.hasAccessToConversation(conversationId, userId);
+          if (!hasAccess && conversation.user_id !== userId) {
+            socket.emit('error', { message: 'Access denied to this conversation' });
             return;
           }
 
-          const openRouterAdapter = new OpenRouterAdapter(
-            process.env.OPENROUTER_API_KEY || '',
-            process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1'
-          );
-
-          const options: LLMOptions = {
-            model: effectiveModel,
-            timeout: 30000,
-            requestId: data.message_id
-          };
-
-          // Stream response with timeout wrapper
-          const streamPromise = (async () => {
-            const stream = openRouterAdapter.streamCompletion(messages, options);
-            let fullContent = '';
-            const assistantMessageId = this.generateMessageId();
-
-            try {
-              for await (const chunk of stream) {
-                if (chunk.deltaText) {
-                  fullContent += chunk.deltaText;
-                  socket.emit('assistant_delta', {
-                    message_id: assistantMessageId,
-                    chunk: chunk.deltaText,
-                    index: fullContent.length,
-                    total: null // Unknown total for streaming
-                  });
-                }
-              }
-              return { fullContent, assistantMessageId };
-            } catch (streamError) {
-              console.error('[OpenRouter] Stream error:', streamError);
-              socket.emit('llm_error', { message: 'LLM stream failed: ' + (streamError as Error).message });
-              throw streamError;
-            }
-          })();
-
-          let finalContent = '';
-          let finalAssistantMessageId = '';
-
-          try {
-            const { fullContent, assistantMessageId } = await Promise.race([
-              streamPromise,
-              new Promise<never>((_, reject) => setTimeout(() => reject(new Error('Stream timeout')), 60000)) // Overall 60s timeout
-            ]);
-
-            console.log('[DEBUG] OpenRouter call completed');
-            console.log('[OpenRouter] streamCompletion completed, full content length:', fullContent.length);
-
-            if (fullContent.length === 0) {
-              console.log('[OpenRouter] No streamed chunks; invoking non-stream fallback');
-              const fallbackContent = await openRouterAdapter.fetchCompletion(messages, options);
-              if (fallbackContent.trim().length > 0) {
-                finalContent = fallbackContent;
-                finalAssistantMessageId = assistantMessageId;
-              } else {
-                socket.emit('llm_error', { message: 'No response generated from LLM' });
-                return;
-              }
-            } else {
-              finalContent = fullContent;
-              finalAssistantMessageId = assistantMessageId;
-            }
-          } catch (streamError) {
-            const streamErrorMessage =
-              streamError instanceof Error ? streamError.message : String(streamError);
-            console.error('[OpenRouter] Stream failed, attempting non-stream fallback:', streamErrorMessage);
-            try {
-              const fallbackContent = await openRouterAdapter.fetchCompletion(messages, options);
-              if (fallbackContent.trim().length > 0) {
-                finalContent = fallbackContent;
-                finalAssistantMessageId = this.generateMessageId();
-              } else {
-                socket.emit('llm_error', { message: 'No response generated from LLM after fallback' });
-                return;
-              }
-            } catch (fallbackError) {
-              const fallbackErrorMessage =
-                fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
-              console.error('[OpenRouter] Fallback also failed:', fallbackErrorMessage);
-              socket.emit('llm_error', {
-                message: 'LLM completely failed: ' + fallbackErrorMessage
-              });
-              return;
-            }
+          const candidates = compareId ? await conversationService.getResponseCandidates(conversationId, compareId) : [];
+          if (!candidates.some(candidate => candidate.id === candidateId)) {
+            socket.emit('error', { message: 'Candidate not found' });
+            return;
           }
 
-          // Store assistant message if authenticated
-          if (isAuthenticated) {
-            await conversationService.addMessage({
-              conversation_id: resolvedConversationId as string,
-              role: 'assistant',
-              content: finalContent,
-              model: effectiveModel,
-              persona_id: data.selected_country_key,
-              tokens_used: undefined
-            });
-            console.log(`💾 Stored assistant message ${finalAssistantMessageId} in conversation ${resolvedConversationId}`);
-          } else {
-            console.log('[DEBUG] Unauthenticated, skipping assistant message storage');
+          const selection = await conversationService.selectResponseCandidate(conversationId, candidateId);
+          if (!selection) {
+            socket.emit('error', { message: 'Candidate cannot be selected (still streaming, failed, empty or a winner was already picked)' });
+            return;
           }
-
-          // Emit final message
-          socket.emit('assistant_final', {
-            message_id: finalAssistantMessageId,
-            final_content: finalContent,
-            timestamp: new Date().toISOString(),
-            conversationId
+          socket.emit('candidate_selected', {
+            conversationId,
+            compare_id: compareId,
+            candidate_id: candidateId,
+            model: selection.candidate.model,
+            assistant_message_id: selection.message.id,
+            timestamp: new Date().toISOString()
           });
+          console.log(`⚖️ Selected ${selection.candidate.model} for compare ${compareId} in conversation ${conversationId}`);
+        } catch (error: any) {
+          console.error('Error selecting candidate:', error);
+          socket.emit('error', { message: 'Failed to select candidate' });
+        }
+      });
 
-          // If new conversation, emit the created conversation ID back to client (only for auth, temp for unauth)
-          if (isNewConversation) {
-            socket.emit('conversation_created', { conversationId, userId: isAuthenticated ? userId : 'anonymous' });
-          }
-
-          console.log(`[DEBUG] Handler completed at ${new Date().toISOString()}, total time: ${Date.now() - startTime}ms`);
+      // Cancel an in-flight generation (message_id may be the user message id or the assistant message id)
+      socket.on('cancel_generation', async (data: { message_id: string }) => {
+        const messageId = data?.message_id;
+        const generation = messageId ? generationRegistry.get(messageId) : undefined;
+        if (!generation) {
+          socket.emit('error', { message: 'No active generation for this message' });
+          return;
+        }
 
-          // Metrics
-          this.metrics.successes.inc();
-          console.log('✅ User message processed for:', data.message_id, 'content length:', finalContent.length);
-        } catch (error: any) {
-          const endTime = Date.now();
-          console.error(`[DEBUG] Handler error at ${new Date(endTime).toISOString()}, total time: ${endTime - startTime}ms`);
-          console.error('❌ User message processing error:', error);
-          this.metrics.errors.inc();
-          socket.emit('error', {
-            message: 'Sorry, I encountered an error processing your message. Please try again.',
-            details: error.message
-          });
+        const userId = (socket as any).user?.sub;
+        if (generation.socketId !== socket.id && (!userId || generation.userId !== userId)) {
+          socket.emit('error', { message: 'Access denied to this generation' });
+          return;
         }
+
+        await generationRegistry.cancel(messageId);
       });
 
       // Load conversation history
@@ -729,7 +572,7 @@ class WebSocketService {
           if (conversation) {
             // Conversation exists - verify user access
             const hasAccess = await collaborationService.hasAccessToConversation(conversationId, userId);
-            if (!hasAccess && conversation.user_id !== userId) {
+            if (!hasAccess && !(await folderService.canReadConversation(conversation, userId))) {
               // Treat as stale/foreign id: return empty history without error to avoid UX regressions
               socket.emit('history_loaded', {
                 conversationId,
@@ -744,13 +587,8 @@ class WebSocketService {
             const messages = await conversationService.getConversationMessages(conversationId);
             socket.emit('history_loaded', {
               conversationId,
-              messages: messages.slice(-50).map(msg => ({
-                id: msg.id,
-                type: msg.role as 'user' | 'assistant',
-                content: msg.content,
-                timestamp: new Date(msg.created_at).getTime(), // Convert Date to number
-                country_key: msg.persona_id || undefined
-              })),
+              active_branch_id: conversation.active_branch_id || 'main',
+              messages: messages.slice(-50).map(msg => this.toHistoryMessage(msg)),
               timestamp: new Date().toISOString()
             });
             console.log(`📚 Loaded ${messages.length} messages for user ${userId} in conversation ${conversationId}`);
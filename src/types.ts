@@ -9,6 +9,29 @@ export interface Persona {
   safe_reviewed: boolean;
   created_by: string;
   created_at: string;
+  generation_settings?: GenerationSettings; // persona defaults, overridden by conversation settings
+  tools?: string[]; // server-side tools (see toolRegistry) this persona may call
+}
+
+// Regional vocabulary of a persona (personas/lexicons/<country_key>.json), used to check and finish replies
+export interface PersonaLexicon {
+  country_key: string;
+  pronoun?: string;                                    // default formality: tu, usted, vos or mixed
+  slang: string[];                                     // a reply should use at least one of these
+  follow_ups: Partial<Record<string, string[]>>;       // per formality, appended to replies without a question
+  banned_terms: string[];                              // other regions' slang that breaks character
+}
+
+// Stored generation defaults (persona / conversation), snake_case like the upstream API
+export interface GenerationSettings {
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  stop?: string[];
+  seed?: number;
+  frequency_penalty?: number;
+  presence_penalty?: number;
+  timeout_ms?: number;
 }
 
 export interface Message {
@@ -22,28 +45,118 @@ export interface Message {
 }
 
 export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | LLMContentPart[]; // parts only for multimodal user turns
+  tool_calls?: ToolCall[]; // assistant turn requesting tools
+  tool_call_id?: string;   // tool turn answering a call
+  name?: string;
+}
+
+// OpenAI-compatible multimodal content parts
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'auto' | 'low' | 'high' } };
+
+// Image sent with a user message: a public URL or a base64 upload
+export interface MessageAttachment {
+  type: 'image';
+  url?: string;
+  data?: string;       // base64, with or without a data: URL prefix
+  mime_type?: string;  // required for raw base64
+  name?: string;
+}
+
+// What we persist for an attachment (uploads are referenced by hash, not stored)
+export interface StoredAttachment {
+  type: 'image';
+  url?: string;
+  mime_type?: string;
+  size_bytes?: number;
+  sha256?: string;
+  name?: string;
+}
+
+// Tutor mode: one mistake in a learner's message
+export interface TutorCorrection {
+  original: string;      // span of the user's message as written
+  suggestion: string;
+  explanation: string;
+  category: 'grammar' | 'spelling' | 'register' | 'vocabulary' | 'punctuation';
+  start: number | null;  // offset of `original` in the message (null when the model paraphrased it)
+  end: number | null;
+}
+
+// Stored on the user message and emitted as user_message_feedback
+export interface TutorFeedback {
+  corrections: TutorCorrection[];  // empty when the message had no mistakes
+  corrected_message: string | null;
+  model: string;
+  analyzed_at: string;
+}
+
+// OpenAI-compatible function calling
+export interface ToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string; // JSON-encoded
+  };
+}
+
+export interface ToolDefinition {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, any>; // JSON schema
+  };
 }
 
 export interface DeltaChunk {
   deltaText?: string;
   isFinal?: boolean;
+  toolCalls?: ToolCall[]; // assembled from streamed deltas, set on the final chunk
   meta?: any;
 }
 
+export interface TokenUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  estimated?: boolean; // true when computed locally because the provider omitted usage
+}
+
 export interface LLMOptions {
   model: string;
   timeout?: number;
   requestId?: string;
   // Optional generation controls
   temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  stop?: string[];
+  seed?: number;
+  frequencyPenalty?: number;
+  presencePenalty?: number;
   // OpenRouter-compatible structured output controls (best-effort; model support varies)
   // Example: { type: "json_object" } or { type: "json_schema", json_schema: {...} }
   responseFormat?: any;
   jsonSchema?: any;
+  tools?: ToolDefinition[];
+  toolChoice?: 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } };
+  // Receives provider-reported usage from fetchCompletion (streams report it on the final chunk's meta.usage)
+  onUsage?: (usage: TokenUsage) => void;
+  // Scheduling: queue priority (subscription plan) and queue position updates while waiting for a slot
+  priority?: PlanPriority;
+  onQueuePosition?: (position: number, queueLength: number) => void;
 }
 
+export type PlanPriority = 'free' | 'pro' | 'premium';
+
+// How the persona addresses the user: informal tú, formal usted, regional vos, or mixed to teach the difference
+export type Formality = 'tu' | 'usted' | 'vos' | 'mixed';
+
 export interface UserMessagePayload {
   message: string;
   selected_country_key: string;
@@ -51,6 +164,29 @@ export interface UserMessagePayload {
   message_id: string;
   model?: string; // Selected model for this message
   conversationId?: string; // Conversation context for model switching
+  attachments?: MessageAttachment[]; // Images for vision-capable models
+  compare_models?: string[]; // Compare mode: 2-4 models answer the same message side by side
+  formality?: Formality; // used when the conversation has no stored formality (e.g. anonymous chats)
+  tutor_mode?: boolean; // analyse the message for mistakes (user_message_feedback); like formality, the stored setting wins
+}
+
+// Edit an earlier user message: the edited text is answered on a new branch forked before it
+export interface EditMessagePayload {
+  conversationId: string;
+  edited_message_id: string;
+  message: string;
+  message_id: string;
+  selected_country_key?: string; // defaults to the edited message's persona
+  model?: string;
+  attachments?: MessageAttachment[];
+}
+
+// Answer the same user message again on a new branch
+export interface RegenerateMessagePayload {
+  conversationId: string;
+  assistant_message_id: string;
+  message_id: string;
+  model?: string;
 }
 
 export interface AssistantDeltaPayload {